@@ -0,0 +1,123 @@
+// Stand-in for rosbridge_server, for trying the ROS bridge without a ROS install. It speaks the same JSON ops the
+// app uses (advertise, subscribe, unsubscribe, publish), routes publishes to subscribers of the topic, prints the
+// joint states it receives, and sweeps every joint with a slow sine on the command topic.
+//
+//   npm run mock-rosbridge          (PORT=9091 to change the port, DEMO=off to only route messages)
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT ?? 9090);
+const DEMO = process.env.DEMO !== 'off';
+const COMMAND_TOPIC = process.env.COMMAND_TOPIC ?? '/joint_command';
+const COMMAND_INTERVAL_MS = 50;
+const LOG_INTERVAL_MS = 1000;
+
+const server = new WebSocketServer({ port: PORT });
+// Topic -> sockets subscribed to it.
+const subscribers = new Map();
+// Message type per topic, from advertise or subscribe, echoed back on demo publishes.
+const topicTypes = new Map();
+// Joint names from the latest JointState anyone published, so the demo knows what to command.
+let jointNames = [];
+let lastLog = 0;
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function publish(topic, msg) {
+  (subscribers.get(topic) ?? new Set()).forEach((socket) => send(socket, { op: 'publish', topic, msg }));
+}
+
+function logJointState(topic, msg) {
+  const now = Date.now();
+  if (now - lastLog < LOG_INTERVAL_MS) {
+    return;
+  }
+  lastLog = now;
+
+  const values = msg.name.map((name, index) => `${name}=${Number(msg.position[index]).toFixed(3)}`);
+  console.log(`${topic}: ${values.join('  ')}`);
+}
+
+server.on('connection', (socket) => {
+  console.log('Client connected');
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    switch (message?.op) {
+      case 'advertise':
+        topicTypes.set(message.topic, message.type);
+        console.log(`advertise ${message.topic} [${message.type}]`);
+        break;
+
+      case 'subscribe':
+        if (!subscribers.has(message.topic)) {
+          subscribers.set(message.topic, new Set());
+        }
+        subscribers.get(message.topic).add(socket);
+        if (message.type) {
+          topicTypes.set(message.topic, message.type);
+        }
+        console.log(`subscribe ${message.topic} [${message.type ?? 'any'}]`);
+        break;
+
+      case 'unsubscribe':
+        subscribers.get(message.topic)?.delete(socket);
+        break;
+
+      case 'publish':
+        if (Array.isArray(message.msg?.name) && Array.isArray(message.msg?.position)) {
+          if (message.topic !== COMMAND_TOPIC) {
+            jointNames = message.msg.name;
+          }
+          logJointState(message.topic, message.msg);
+        }
+        publish(message.topic, message.msg);
+        break;
+
+      default:
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    subscribers.forEach((sockets) => sockets.delete(socket));
+    console.log('Client disconnected');
+  });
+});
+
+if (DEMO) {
+  const start = Date.now();
+  setInterval(() => {
+    if (jointNames.length === 0 || !subscribers.get(COMMAND_TOPIC)?.size) {
+      return;
+    }
+
+    // Each joint gets its own phase so the arm doesn't move as one rigid piece; the app clamps to its limits.
+    const now = Date.now();
+    const t = (now - start) / 1000;
+    const ros2 = topicTypes.get(COMMAND_TOPIC)?.includes('/msg/');
+    publish(COMMAND_TOPIC, {
+      header: {
+        stamp: ros2
+          ? { sec: Math.floor(now / 1000), nanosec: (now % 1000) * 1e6 }
+          : { secs: Math.floor(now / 1000), nsecs: (now % 1000) * 1e6 },
+        frame_id: '',
+      },
+      name: jointNames,
+      position: jointNames.map((_, index) => Math.sin(t * 0.6 + index * 0.9)),
+      velocity: [],
+      effort: [],
+    });
+  }, COMMAND_INTERVAL_MS);
+}
+
+console.log(`Mock rosbridge listening on ws://localhost:${PORT}${DEMO ? `, commanding ${COMMAND_TOPIC}` : ''}`);
@@ -0,0 +1,157 @@
+// Relay for shared sessions: every browser connects here, and the relay forwards arm updates and controller rays to
+// the others. It also owns the joint locks, so only the user holding a joint can move it.
+//
+//   npm run relay            (PORT=9000 npm run relay to change the port)
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const COLORS = ['#ff8a5c', '#5cc8ff', '#b88cff', '#7de07d', '#ffd25c', '#ff6fa8'];
+
+const server = new WebSocketServer({ port: PORT });
+const clients = new Map();
+// `${armId}/${jointName}` -> id of the user holding that joint of that arm.
+const locks = new Map();
+// Merged state of every arm in the shared scene, by arm instance id, replayed to anyone who joins late.
+const arms = new Map();
+let nextId = 1;
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function broadcast(message, except) {
+  clients.forEach((_, socket) => {
+    if (socket !== except) {
+      send(socket, message);
+    }
+  });
+}
+
+function peerList() {
+  return [...clients.values()].map(({ id, name, color }) => ({ id, name, color }));
+}
+
+function broadcastLocks() {
+  broadcast({ type: 'locks', locks: Object.fromEntries(locks) });
+}
+
+function lockOwner(armId, joint) {
+  return locks.get(`${armId}/${joint}`);
+}
+
+function releaseLocks(client, joints) {
+  let changed = false;
+  locks.forEach((owner, joint) => {
+    if (owner === client.id && (!joints || joints.includes(joint))) {
+      locks.delete(joint);
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+server.on('connection', (socket) => {
+  const id = `u${nextId}`;
+  const client = { id, name: `Guest ${nextId}`, color: COLORS[(nextId - 1) % COLORS.length] };
+  nextId += 1;
+  clients.set(socket, client);
+
+  send(socket, {
+    type: 'welcome',
+    id,
+    peers: peerList(),
+    locks: Object.fromEntries(locks),
+    arms: Object.fromEntries(arms),
+  });
+  broadcast({ type: 'peers', peers: peerList() }, socket);
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(String(data));
+    } catch {
+      return;
+    }
+
+    switch (message?.type) {
+      case 'hello':
+        if (typeof message.name === 'string' && message.name.trim()) {
+          client.name = message.name.trim().slice(0, 32);
+        }
+        broadcast({ type: 'peers', peers: peerList() });
+        break;
+
+      case 'claim':
+        // First come, first served; the claimant learns whether it won from the lock table everyone receives.
+        (Array.isArray(message.joints) ? message.joints : []).forEach((joint) => {
+          if (typeof joint === 'string' && !locks.has(joint)) {
+            locks.set(joint, id);
+          }
+        });
+        broadcastLocks();
+        break;
+
+      case 'release':
+        if (releaseLocks(client, Array.isArray(message.joints) ? message.joints : [])) {
+          broadcastLocks();
+        }
+        break;
+
+      case 'state': {
+        const state = message.state ?? {};
+        if (typeof state.armId !== 'string' || typeof state.modelId !== 'string') {
+          break;
+        }
+
+        if (state.removed) {
+          arms.delete(state.armId);
+          locks.forEach((_, key) => {
+            if (key.startsWith(`${state.armId}/`)) {
+              locks.delete(key);
+            }
+          });
+          broadcastLocks();
+          const { armId, modelId } = state;
+          broadcast({ type: 'state', from: id, state: { armId, modelId, removed: true } }, socket);
+          break;
+        }
+
+        const joints = Object.fromEntries(
+          Object.entries(state.joints ?? {}).filter(([joint]) => (lockOwner(state.armId, joint) ?? id) === id),
+        );
+
+        let arm = arms.get(state.armId);
+        if (!arm || arm.modelId !== state.modelId) {
+          arm = { modelId: state.modelId, root: null, joints: {} };
+          arms.set(state.armId, arm);
+        }
+        if (state.root) {
+          arm.root = state.root;
+        }
+        Object.assign(arm.joints, joints);
+
+        broadcast({ type: 'state', from: id, state: { ...state, joints } }, socket);
+        break;
+      }
+
+      case 'rays':
+        broadcast({ type: 'rays', from: id, rays: Array.isArray(message.rays) ? message.rays : [] }, socket);
+        break;
+
+      default:
+        break;
+    }
+  });
+
+  socket.on('close', () => {
+    clients.delete(socket);
+    if (releaseLocks(client)) {
+      broadcastLocks();
+    }
+    broadcast({ type: 'peers', peers: peerList() });
+  });
+});
+
+console.log(`Session relay listening on ws://localhost:${PORT}`);
@@ -0,0 +1,209 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import XRPanelButton from './XRPanelButton.tsx';
+import { placeBesideArm, useXRMode } from './xrUi.ts';
+
+const tempHeadPos = new THREE.Vector3();
+const tempHitPos = new THREE.Vector3();
+const tempHitQuat = new THREE.Quaternion();
+const tempHitScale = new THREE.Vector3();
+const tempArmOffset = new THREE.Vector3();
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+type SavedPlacement = { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 };
+
+/**
+ * Puts the arms down on a real surface in AR. While `placing`, a reticle follows the surface the headset or phone is
+ * looking at (WebXR hit-test from the viewer) and the arms stay hidden; a select drops the active arm (`armRoot`)
+ * there at its model scale, turned to face the user, and the others around it as they stood. Switching arms moves
+ * nothing. Leaving AR gives every arm back the placement it had before.
+ */
+export default function ARPlacement({
+  armRoot,
+  armRoots,
+  scale,
+  placing,
+  onPlacingChange,
+}: {
+  armRoot: THREE.Object3D | null;
+  armRoots: THREE.Object3D[];
+  scale: number;
+  placing: boolean;
+  onPlacingChange: (placing: boolean) => void;
+}) {
+  const { gl } = useThree();
+  const mode = useXRMode();
+  const hitTestSourceRef = useRef<XRHitTestSource | null>(null);
+  const placingRef = useRef(placing);
+  const panelRef = useRef<THREE.Group>(null);
+  // Read when the arms are put down, so a change of active arm doesn't restart placement.
+  const placedRef = useRef({ armRoot, armRoots, scale });
+
+  useEffect(() => {
+    placedRef.current = { armRoot, armRoots, scale };
+  }, [armRoot, armRoots, scale]);
+
+  const reticle = useMemo(() => {
+    const mesh = new THREE.Mesh(
+      new THREE.RingGeometry(0.07, 0.09, 32).rotateX(-Math.PI / 2),
+      new THREE.MeshBasicMaterial({ color: '#ffffff' }),
+    );
+    mesh.matrixAutoUpdate = false;
+    mesh.visible = false;
+    return mesh;
+  }, []);
+
+  useEffect(
+    () => () => {
+      reticle.geometry.dispose();
+      (reticle.material as THREE.Material).dispose();
+    },
+    [reticle],
+  );
+
+  useEffect(() => {
+    placingRef.current = placing;
+    if (mode === 'ar') {
+      armRoots.forEach((root) => {
+        root.visible = !placing;
+      });
+    }
+  }, [armRoots, mode, placing]);
+
+  useEffect(() => {
+    const session = gl.xr.getSession();
+    if (mode !== 'ar' || !session) {
+      return;
+    }
+
+    // Taken the first time each arm is put down, so arms added during the session are restored too.
+    const saved = new Map<THREE.Object3D, SavedPlacement>();
+    let cancelled = false;
+
+    session
+      .requestReferenceSpace('viewer')
+      .then((space) => session.requestHitTestSource?.({ space }))
+      .then((source) => {
+        if (cancelled) {
+          source?.cancel();
+          return;
+        }
+        hitTestSourceRef.current = source ?? null;
+      })
+      .catch(() => {
+        hitTestSourceRef.current = null;
+      });
+
+    // Armed on selectstart, so the press that opened placement again (the panel button) doesn't also end it.
+    const armed = new Set<THREE.Object3D>();
+    const controllers = [gl.xr.getController(0), gl.xr.getController(1)];
+
+    const onSelectStart = (event: { target: THREE.Object3D }) => {
+      if (placingRef.current) {
+        armed.add(event.target);
+      }
+    };
+
+    const onSelect = (event: { target: THREE.Object3D }) => {
+      const { armRoot: anchor, armRoots: roots, scale } = placedRef.current;
+      if (!armed.delete(event.target) || !placingRef.current || !reticle.visible || !anchor) {
+        return;
+      }
+
+      roots.forEach((root) => {
+        if (!saved.has(root)) {
+          saved.set(root, {
+            position: root.position.clone(),
+            quaternion: root.quaternion.clone(),
+            scale: root.scale.clone(),
+          });
+        }
+      });
+
+      reticle.matrix.decompose(tempHitPos, tempHitQuat, tempHitScale);
+      gl.xr.getCamera().getWorldPosition(tempHeadPos);
+
+      // Face the user: the arm's front (+z) points back toward the head.
+      const heading = Math.atan2(tempHeadPos.x - tempHitPos.x, tempHeadPos.z - tempHitPos.z);
+      const turn = heading - anchor.rotation.y;
+      const resize = scale / anchor.scale.x;
+
+      // The other arms come along as one group, keeping where they stand relative to the active one.
+      roots.forEach((root) => {
+        if (root !== anchor) {
+          tempArmOffset.copy(root.position).sub(anchor.position).applyAxisAngle(WORLD_UP, turn).multiplyScalar(resize);
+          root.position.copy(tempHitPos).add(tempArmOffset);
+          root.rotation.y += turn;
+          root.scale.multiplyScalar(resize);
+        }
+      });
+
+      anchor.position.copy(tempHitPos);
+      anchor.rotation.set(0, heading, 0);
+      anchor.scale.setScalar(scale);
+      onPlacingChange(false);
+    };
+
+    controllers.forEach((controller) => {
+      controller.addEventListener('selectstart', onSelectStart);
+      controller.addEventListener('select', onSelect);
+    });
+    onPlacingChange(true);
+
+    return () => {
+      cancelled = true;
+      controllers.forEach((controller) => {
+        controller.removeEventListener('selectstart', onSelectStart);
+        controller.removeEventListener('select', onSelect);
+      });
+      hitTestSourceRef.current?.cancel();
+      hitTestSourceRef.current = null;
+      reticle.visible = false;
+
+      saved.forEach((placement, root) => {
+        root.position.copy(placement.position);
+        root.quaternion.copy(placement.quaternion);
+        root.scale.copy(placement.scale);
+      });
+      placedRef.current.armRoots.forEach((root) => {
+        root.visible = true;
+      });
+      onPlacingChange(false);
+    };
+  }, [gl, mode, onPlacingChange, reticle]);
+
+  useFrame(() => {
+    const source = hitTestSourceRef.current;
+    const frame = gl.xr.getFrame();
+    const referenceSpace = gl.xr.getReferenceSpace();
+    const pose =
+      placingRef.current && source && frame && referenceSpace
+        ? frame.getHitTestResults(source)[0]?.getPose(referenceSpace)
+        : undefined;
+
+    reticle.visible = Boolean(pose);
+    if (pose) {
+      reticle.matrix.fromArray(pose.transform.matrix);
+    }
+
+    if (panelRef.current && armRoot) {
+      placeBesideArm(panelRef.current, armRoot, [0.6, 0.35, 0]);
+    }
+  });
+
+  if (mode !== 'ar') {
+    return null;
+  }
+
+  return (
+    <>
+      <primitive object={reticle} />
+      {!placing && (
+        <group ref={panelRef}>
+          <XRPanelButton position={[0, 0, 0]} width={0.26} label="Place again" onPress={() => onPlacingChange(true)} />
+        </group>
+      )}
+    </>
+  );
+}
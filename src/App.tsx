@@ -1,47 +1,265 @@
-import { Suspense, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { OrbitControls, Text, useGLTF, useTexture } from '@react-three/drei';
+import { Suspense, type CSSProperties, type RefObject, useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Canvas, useFrame, useLoader, useThree } from '@react-three/fiber';
+import { Billboard, OrbitControls, Text, useGLTF, useTexture } from '@react-three/drei';
+import { ARButton } from 'three/examples/jsm/webxr/ARButton.js';
 import { VRButton } from 'three/examples/jsm/webxr/VRButton.js';
 import { XRControllerModelFactory } from 'three/examples/jsm/webxr/XRControllerModelFactory.js';
+import { XRHandModelFactory } from 'three/examples/jsm/webxr/XRHandModelFactory.js';
 import * as SkeletonUtils from 'three/examples/jsm/utils/SkeletonUtils.js';
 import * as THREE from 'three';
+import JointEditor from './JointEditor.tsx';
+import XRLocomotion from './XRLocomotion.tsx';
+import XRPanelButton from './XRPanelButton.tsx';
+import ARPlacement from './ARPlacement.tsx';
+import ArmErrorBoundary from './ArmErrorBoundary.tsx';
+import { buttonStyle, panelStyle } from './panelStyles.ts';
+import { DEFAULT_GLB_SCALE, loadCatalog, type ModelOption } from './catalog.ts';
+import { createArmInstance, getArmLabels, type ArmInstance } from './arms.ts';
+import { URDFLoader } from './urdf.ts';
+import { downloadJson, readJsonFile, toFileStem } from './files.ts';
+import PosePanel, { TimelinePlayer, VRTimelineControls } from './PoseTimeline.tsx';
+import SessionPanel, { SessionSync } from './SessionPanel.tsx';
+import RosBridgePanel, { RosBridgeSync } from './RosBridgePanel.tsx';
+import LessonPanel, { LessonRunner, VRLessonPanel } from './LessonPanel.tsx';
+import MeasurePanel, { MeasureOverlay, VRMeasureControls } from './MeasurePanel.tsx';
+import ViewPanel, { ArmViewRig, VRViewControls } from './ViewPanel.tsx';
+import { DEFAULT_ARM_VIEW, getArmLinks, type ArmLink, type ArmView } from './armView.ts';
+import {
+  applyHomePose,
+  captureTransforms,
+  createHistoryEntry,
+  EMPTY_HISTORY,
+  keepHistoryOn,
+  pushHistory,
+  redoHistory,
+  undoHistory,
+  type History,
+  type ObjectTransform,
+} from './history.ts';
+import WorkspacePanel, { HIDDEN_WORKSPACE, VRWorkspaceControls, WorkspaceCloud, type WorkspaceView } from './WorkspacePanel.tsx';
+import { getWorkspaceDofs } from './workspace.ts';
+import {
+  applyPose,
+  applySequenceAt,
+  capturePose,
+  EMPTY_SEQUENCE,
+  getSequenceDuration,
+  parseSequence,
+  sortKeyframes,
+  type Keyframe,
+  type Pose,
+  type Sequence,
+} from './poses.ts';
+import { getXRMode, hitXRButton, placeBesideArm, setRequestedXRMode, useXRMode, useXRPresenting } from './xrUi.ts';
+import {
+  connectSession,
+  isLockedByOther,
+  jointKey,
+  type SessionArm,
+  type SessionConnection,
+  type SessionPeer,
+  type SessionStatus,
+} from './session.ts';
+import {
+  connectRosBridge,
+  getRosJointAxes,
+  type RosBridgeConnection,
+  type RosBridgeOptions,
+  type RosBridgeStatus,
+} from './rosbridge.ts';
+import {
+  completeStep,
+  getLessonReport,
+  loadLessonReports,
+  loadLessons,
+  parseLessons,
+  revealHint,
+  startLessonRun,
+  storeLessonReports,
+  type CheckReading,
+  type Lesson,
+  type LessonReport,
+  type LessonRun,
+} from './lessons.ts';
+import {
+  addMeasurePoint,
+  createAnchor,
+  EMPTY_MEASURE,
+  findCarryingJoint,
+  getLinkPairs,
+  getSurfaceFrame,
+  keepMeasurementsOn,
+  measureJoints,
+  undoMeasurePoint,
+  type MeasureMode,
+  type MeasureSnap,
+  type MeasureState,
+} from './measure.ts';
+import { buildChain, solveCCD, type IKLink } from './ik.ts';
+import { createLinkage, getDependentJoints, stepLinkage, type Linkage } from './linkage.ts';
+import { findNearestMesh, isHandGrabbing, NEAR_PINCH_RADIUS, updatePinchProxy } from './hands.ts';
+import {
+  hitGizmoHandle,
+  isGizmoHandleHovered,
+  registerGizmoHandle,
+  setGizmoHover,
+  type GizmoHandle,
+} from './gizmoHandles.ts';
+import { driveAxis, getSaturatedAxes, hasPendingMotion, settleJointMotion, stepJointMotion } from './motion.ts';
+import {
+  createCollisionWorld,
+  detectCollisions,
+  guardPose,
+  highlightCollisions,
+  type CollisionMode,
+  type CollisionWorld,
+} from './collisions.ts';
+import {
+  AXES,
+  clampIfNeeded,
+  getJointConstraint,
+  getRotationAxes,
+  getRotationAxisWorld,
+  getSlideAxis,
+  getSlideOffset,
+  hasEnabledAxis,
+  isPrismaticJoint,
+  keyByJointName,
+  parseJointConstraints,
+  readExtrasConstraints,
+  serializeJointConstraints,
+  unitAxis,
+  type Axis,
+  type AxisConstraint,
+  type JointConstraint,
+} from './joints.ts';
+
+type ArmReadyHandler = (
+  armId: string,
+  root: THREE.Object3D,
+  meshes: THREE.Mesh[],
+  joints: THREE.Object3D[],
+  center: THREE.Vector3,
+  radius: number,
+) => void;
 
 type ArmProps = {
-  modelPath: string;
-  onReady: (
-    root: THREE.Object3D,
-    meshes: THREE.Mesh[],
-    joints: THREE.Object3D[],
-    center: THREE.Vector3,
-    radius: number,
-  ) => void;
+  armId: string;
+  model: ModelOption;
+  position: THREE.Vector3Tuple;
+  onReady: ArmReadyHandler;
+};
+
+type LoadedArm = {
+  root: THREE.Object3D;
+  meshes: THREE.Mesh[];
+  joints: THREE.Object3D[];
+  endEffector: THREE.Object3D | null;
+  // Built when the arm loads, while it still stands in its rest pose.
+  collisionWorld: CollisionWorld | null;
+  // The meshes grouped by the bone or URDF link that carries them, for hiding, ghosting and exploding.
+  links: ArmLink[];
+};
+
+// Everything picking and dragging need to know about one arm in the scene.
+type InteractiveArm = LoadedArm & {
+  id: string;
+  // The model's own scale, at which it stands 1:1; grabbing it with both hands resizes it around this.
+  realScale: number;
+  constraints: Record<string, JointConstraint>;
+  rotatableTargets: THREE.Object3D[];
+  ikChain: IKLink[];
+  ikJoints: THREE.Object3D[];
+  // The collision world while collisions block motion, otherwise null.
+  collisionGuard: CollisionWorld | null;
+  // Closed-chain models: the loops to keep closed, or why the catalog's linkage doesn't fit the model.
+  linkage: Linkage | null;
+  linkageError: string | null;
+  // The joints the linkage moves, which follow the input rather than being dragged themselves.
+  linkedJoints: THREE.Object3D[];
 };
 
 type ActiveDrag = {
-  controllerIndex: number;
+  armId: string;
+  // The controller, or a proxy that follows the mouse, whose world position drives the drag.
+  source: THREE.Object3D;
   target: THREE.Object3D;
-  startControllerPos: THREE.Vector3;
-  startRotationX: number;
-  startRotationY: number;
+  startSourcePos: THREE.Vector3;
+  startSourceQuat: THREE.Quaternion;
+  startRotation: THREE.Euler;
+  startSlide: Partial<Record<Axis, number>>;
+  // Fixed at grab time, in world space: the axis each enabled rotation turns about, and the direction in which
+  // pushing the grabbed surface turns it forward. Neither depends on how the arm itself is placed.
+  rotationAxes: Partial<Record<Axis, THREE.Vector3>>;
+  tangents: Partial<Record<Axis, THREE.Vector3>>;
+  // How far the grabbed point sits from each axis, in world units: a push of that length along the tangent turns
+  // the joint one radian, so the grabbed point keeps up with the hand at any lever length or arm scale.
+  radii: Partial<Record<Axis, number>>;
+  // Drive a hinge from the controller's roll around the hinge axis instead of from hand motion.
+  twist: boolean;
   constraints: JointConstraint;
+  // Set when a gizmo ring or arrow was grabbed: only that one axis moves.
+  handle: GizmoHandle | null;
+  // The joint as it was grabbed, for the history entry recorded when it is let go.
+  before: ObjectTransform[];
+};
+
+type ActiveReach = {
+  armId: string;
+  source: THREE.Object3D;
+  startSourcePos: THREE.Vector3;
+  startGoal: THREE.Vector3;
+  // Updated every frame while the tip is held; `error` is the distance the solver could not close.
+  goal: THREE.Vector3;
+  error: number;
+  before: ObjectTransform[];
 };
 
 type ActiveMove = {
-  controllerIndex: number;
-  startControllerPos: THREE.Vector3;
+  // A squeezed controller, or the wrist of a hand making a fist.
+  source: THREE.Object3D;
+  root: THREE.Object3D;
+  startSourcePos: THREE.Vector3;
   startRootPos: THREE.Vector3;
+  before: ObjectTransform[];
 };
 
-type AxisConstraint = {
-  enabled: boolean;
-  min?: number;
-  max?: number;
+// Both hands on one arm: their midpoint carries it, their span resizes it and the line between them turns it.
+type ActiveTwoHandGrab = {
+  sources: [THREE.Object3D, THREE.Object3D];
+  root: THREE.Object3D;
+  realScale: number;
+  startMidpoint: THREE.Vector3;
+  startSpan: number;
+  startYaw: number;
+  startRootPos: THREE.Vector3;
+  startRootQuat: THREE.Quaternion;
+  startScale: number;
+  // Carried over from the one-handed move it grew out of, so the whole grab is one history entry.
+  before: ObjectTransform[];
+};
+
+type TrackedHand = {
+  hand: THREE.XRHandSpace;
+  // Follows the pinch point; stands in for the controller as the source of drags and reaches.
+  pinch: THREE.Object3D;
+  grabbing: boolean;
 };
 
-type JointConstraint = {
-  x?: AxisConstraint;
-  y?: AxisConstraint;
-  z?: AxisConstraint;
+type JointReading = {
+  name: string;
+  constraint: JointConstraint;
+  rotation: Record<Axis, number>;
+  slide: Record<Axis, number>;
+  // Axes ('rx', 'ty', ...) that their velocity or acceleration limit is holding back.
+  saturated: string[];
+};
+
+type KinematicsSnapshot = {
+  joints: JointReading[];
+  tipName: string | null;
+  tipPosition: THREE.Vector3;
+  tipRotation: THREE.Euler;
 };
 
 const raycaster = new THREE.Raycaster();
@@ -54,55 +272,341 @@ const tempHeadPos = new THREE.Vector3();
 const tempHeadQuat = new THREE.Quaternion();
 const tempForward = new THREE.Vector3();
 const tempEuler = new THREE.Euler();
+const tempSlideAxis = new THREE.Vector3();
+const tempLocalStart = new THREE.Vector3();
+const tempLocalDelta = new THREE.Vector3();
+const tempSourcePos = new THREE.Vector3();
+const tempSourceQuat = new THREE.Quaternion();
+const tempDeltaQuat = new THREE.Quaternion();
+const tempDragDelta = new THREE.Vector3();
+const tempArmOffset = new THREE.Vector3();
+const tempHandA = new THREE.Vector3();
+const tempHandB = new THREE.Vector3();
+const tempHandMidpoint = new THREE.Vector3();
+const tempGrabTurn = new THREE.Quaternion();
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+const pointerNdc = new THREE.Vector2();
+const tempPointerPos = new THREE.Vector2();
+const dragPlane = new THREE.Plane();
+
+const IK_TOLERANCE = 0.005;
+// Pixels the mouse may travel between press and release for it to still count as a click, not an orbit.
+const CLICK_SLOP = 4;
+// How close to an arm, in metres, a fist has to close to pick that arm up rather than the active one.
+const FIST_REACH = 0.15;
+// How far a two-handed grab can shrink or blow up an arm, as multiples of its real scale, and how close to 1:1 it
+// has to come to settle there.
+const MIN_GRAB_SCALE = 0.2;
+const MAX_GRAB_SCALE = 12;
+const REAL_SCALE_SNAP = 0.08;
+
+type InteractionMode = 'joint' | 'ik';
+
+const NO_CONSTRAINTS: Record<string, JointConstraint> = {};
+const NO_JOINTS: THREE.Object3D[] = [];
+const NO_LINKS: ArmLink[] = [];
+const SEQUENCES_STORAGE_KEY = 'mecanism.sequences';
+
+// Saved poses outlive the page; models opened from disk get a fresh id each time, so theirs are not kept.
+// Each model's sequence is parsed on its own, so one damaged entry doesn't take every other saved sequence with it.
+function loadStoredSequences(): Record<string, Sequence> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(window.localStorage.getItem(SEQUENCES_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  return Object.fromEntries(
+    Object.entries(raw).flatMap(([modelId, sequence]) => {
+      try {
+        return [[modelId, parseSequence(sequence)]];
+      } catch {
+        return [];
+      }
+    }),
+  );
+}
 
-const MODEL_OPTIONS = [
- // { id: 'armA', image: '/armA.png', modelPath: '/models/armA.glb', name:"Prismatic Joint" },
-  { id: 'armB', image: '/armB.png', modelPath: '/models/armB.glb', name:"Prismatic Joint" },
-  { id: 'armC', image: '/armC.png', modelPath: '/models/armC.glb', name:"Revolution Joint" },
-] as const;
+function storeSequences(sequences: Record<string, Sequence>) {
+  const kept = Object.fromEntries(Object.entries(sequences).filter(([modelId]) => !modelId.startsWith('local-')));
+  window.localStorage.setItem(SEQUENCES_STORAGE_KEY, JSON.stringify(kept));
+}
 
-type ModelId = (typeof MODEL_OPTIONS)[number]['id'];
-type GizmoMode = 'rotate' | 'move';
+// Bones carry no length, so the tool tip is a marker at the far end of the deepest joint's meshes along its y axis.
+function findEndEffector(joints: THREE.Object3D[]): THREE.Object3D | null {
+  let deepest: THREE.Object3D | null = null;
+  let deepestLevel = -1;
 
-const deg = THREE.MathUtils.degToRad;
+  joints.forEach((joint) => {
+    let level = 0;
+    for (let current = joint.parent; current; current = current.parent) {
+      level += 1;
+    }
 
-const MODEL_JOINT_CONSTRAINTS: Partial<Record<ModelId, Record<string, JointConstraint>>> = {
-  armC: {
-    // Base swivel: spin around the vertical axis continuously.
-    Bone: {
-      y: { enabled: true },
-    },
-    // Shoulder hinge: tilt the arm within a 30 degree arc.
-    'Bone.001': {
-      x: { enabled: true, min: deg(-30), max: deg(30) },
-    },
-  },
-};
+    if (level > deepestLevel) {
+      deepestLevel = level;
+      deepest = joint;
+    }
+  });
+
+  const lastJoint = deepest as THREE.Object3D | null;
+  if (!lastJoint) {
+    return null;
+  }
+
+  // A URDF marks its tool link's frame, which can sit a few fixed links below the last joint.
+  let existing: THREE.Object3D | null = null;
+  lastJoint.traverse((child) => {
+    existing ??= child.userData.isEndEffector ? child : null;
+  });
+  if (existing) {
+    return existing;
+  }
+
+  lastJoint.updateMatrixWorld(true);
+  const toJointLocal = new THREE.Matrix4().copy(lastJoint.matrixWorld).invert();
+  const meshToJoint = new THREE.Matrix4();
+  const bounds = new THREE.Box3();
+  let reach = 0;
+
+  lastJoint.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) {
+      return;
+    }
+
+    child.geometry.computeBoundingBox();
+    meshToJoint.multiplyMatrices(toJointLocal, child.matrixWorld);
+    bounds.copy(child.geometry.boundingBox!).applyMatrix4(meshToJoint);
+    reach = Math.max(reach, bounds.max.y);
+  });
 
-function clampIfNeeded(value: number, constraint?: AxisConstraint): number {
-  if (!constraint?.enabled) {
-    return value;
+  const tip = new THREE.Object3D();
+  tip.name = `${lastJoint.name}_tip`;
+  tip.userData.isEndEffector = true;
+  tip.position.set(0, reach, 0);
+  lastJoint.add(tip);
+
+  return tip;
+}
+
+function createInteractiveArm(
+  id: string,
+  model: ModelOption,
+  loaded: LoadedArm,
+  edits: Record<string, JointConstraint> | undefined,
+  collisionMode: CollisionMode,
+): InteractiveArm {
+  // Catalog limits, overridden by the GLB's own extras, overridden in turn by anything edited in the app.
+  const loadedConstraints = {
+    ...keyByJointName(model.joints ?? NO_CONSTRAINTS, loaded.joints),
+    ...readExtrasConstraints(loaded.joints),
+  };
+  const constraints = edits ?? loadedConstraints;
+  const getConstraint = (joint: THREE.Object3D) => getJointConstraint(constraints, joint);
+
+  let linkage: Linkage | null = null;
+  let linkageError: string | null = null;
+  try {
+    linkage = model.linkage ? createLinkage(model.linkage, loaded.root, loaded.joints, getConstraint) : null;
+  } catch (error) {
+    linkageError = error instanceof Error ? error.message : String(error);
   }
+  const linkedJoints = linkage ? getDependentJoints(linkage) : [];
 
-  let nextValue = value;
+  // Once any joint is constrained, only constrained joints move; an arm with no limits at all stays free.
+  const constrainedJoints = loaded.joints.filter((joint) => hasEnabledAxis(getConstraint(joint)));
+  const rotatableTargets = (constrainedJoints.length > 0 ? constrainedJoints : loaded.joints).filter(
+    (joint) => !linkedJoints.includes(joint),
+  );
+  const ikChain = loaded.endEffector ? buildChain(rotatableTargets, loaded.endEffector, getConstraint) : [];
+
+  return {
+    ...loaded,
+    id,
+    realScale: model.scale,
+    constraints,
+    rotatableTargets,
+    ikChain,
+    ikJoints: ikChain.map((link) => link.joint),
+    collisionGuard: collisionMode === 'block' ? loaded.collisionWorld : null,
+    linkage,
+    linkageError,
+    linkedJoints,
+  };
+}
 
-  if (constraint.min !== undefined) {
-    nextValue = Math.max(constraint.min, nextValue);
+// The arm a picked mesh, joint or gizmo target belongs to.
+function findArmOf(object: THREE.Object3D, arms: InteractiveArm[]): InteractiveArm | null {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    const arm = arms.find((candidate) => candidate.root === current);
+    if (arm) {
+      return arm;
+    }
   }
 
-  if (constraint.max !== undefined) {
-    nextValue = Math.min(constraint.max, nextValue);
+  return null;
+}
+
+function formatDegrees(radians: number): string {
+  return `${THREE.MathUtils.radToDeg(radians).toFixed(1)}°`;
+}
+
+function formatLimits(constraint: AxisConstraint | undefined, format: (value: number) => string): string {
+  if (!constraint || (constraint.min === undefined && constraint.max === undefined)) {
+    return 'free';
   }
 
-  return nextValue;
+  const min = constraint.min === undefined ? '-∞' : format(constraint.min);
+  const max = constraint.max === undefined ? '∞' : format(constraint.max);
+  return `[${min}, ${max}]`;
+}
+
+function describeJoint(reading: JointReading): string {
+  const { constraint } = reading;
+  const parts: string[] = [];
+  const rotationAxes = getRotationAxes(constraint);
+
+  AXES.forEach((axis) => {
+    const rotation = constraint[axis];
+    const saturation = (label: string) => (reading.saturated.includes(label) ? ' (saturated)' : '');
+
+    if (rotationAxes.includes(axis)) {
+      parts.push(
+        `r${axis} ${formatDegrees(reading.rotation[axis])} ${formatLimits(rotation, formatDegrees)}${saturation(`r${axis}`)}`,
+      );
+    }
+
+    const slide = constraint.translation?.[axis];
+    if (slide?.enabled) {
+      parts.push(
+        `t${axis} ${reading.slide[axis].toFixed(2)} ${formatLimits(slide, (value) => value.toFixed(2))}${saturation(`t${axis}`)}`,
+      );
+    }
+  });
+
+  return `${reading.name}: ${parts.join('  ')}`;
+}
+
+function describeTip(snapshot: KinematicsSnapshot): string[] {
+  const { tipPosition: p, tipRotation: r } = snapshot;
+  return [
+    `tip ${snapshot.tipName ?? '-'}`,
+    `pos  ${p.x.toFixed(3)}  ${p.y.toFixed(3)}  ${p.z.toFixed(3)} m`,
+    `rot  ${formatDegrees(r.x)}  ${formatDegrees(r.y)}  ${formatDegrees(r.z)}`,
+  ];
+}
+
+const GIZMO_COLORS: Record<Axis, string> = { x: '#ff6b6b', y: '#6bff9c', z: '#6bb7ff' };
+const GIZMO_HOVER_COLOR = '#ffd166';
+const GIZMO_RING_RADII: Record<Axis, number> = { x: 0.22, y: 0.24, z: 0.26 };
+const TORUS_NORMAL = new THREE.Vector3(0, 0, 1);
+const CONE_UP = new THREE.Vector3(0, 1, 0);
+const tempGizmoAxis = new THREE.Vector3();
+const tempGizmoQuat = new THREE.Quaternion();
+
+// Lights a handle's visible mesh while a pointer or controller is over, or holding, its pick mesh.
+function useGizmoHighlight(
+  pickRef: RefObject<THREE.Mesh>,
+  materialRef: RefObject<THREE.MeshBasicMaterial>,
+  axis: Axis,
+  opacity: number,
+) {
+  useFrame(() => {
+    if (!pickRef.current || !materialRef.current) {
+      return;
+    }
+
+    const hovered = isGizmoHandleHovered(pickRef.current);
+    materialRef.current.color.set(hovered ? GIZMO_HOVER_COLOR : GIZMO_COLORS[axis]);
+    materialRef.current.opacity = hovered ? 1 : opacity;
+  });
+}
+
+function GizmoRing({ target, axis }: { target: THREE.Object3D; axis: Axis }) {
+  const groupRef = useRef<THREE.Group>(null);
+  const pickRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  const radius = GIZMO_RING_RADII[axis];
+
+  useEffect(() => {
+    if (!pickRef.current) {
+      return;
+    }
+
+    return registerGizmoHandle(pickRef.current, { target, kind: 'rotation', axis });
+  }, [axis, target]);
+
+  useGizmoHighlight(pickRef, materialRef, axis, 0.65);
+
+  // The y and z axes tilt with the Euler turns before them, so each ring is squared to the axis it really drives.
+  useFrame(() => {
+    if (!groupRef.current) {
+      return;
+    }
+
+    target.getWorldQuaternion(tempGizmoQuat).invert();
+    getRotationAxisWorld(target, axis, tempGizmoAxis).applyQuaternion(tempGizmoQuat);
+    groupRef.current.quaternion.setFromUnitVectors(TORUS_NORMAL, tempGizmoAxis);
+  });
+
+  return (
+    <group ref={groupRef}>
+      <mesh renderOrder={1000}>
+        <torusGeometry args={[radius, 0.01, 10, 64]} />
+        <meshBasicMaterial ref={materialRef} transparent opacity={0.65} depthWrite={false} depthTest={false} />
+      </mesh>
+      {/* A fatter, unrendered ring to pick, so the thin one is easy to catch with a mouse or a ray. */}
+      <mesh ref={pickRef}>
+        <torusGeometry args={[radius, 0.03, 6, 48]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+    </group>
+  );
 }
 
-function getJointConstraint(modelId: ModelId, target: THREE.Object3D): JointConstraint {
-  return MODEL_JOINT_CONSTRAINTS[modelId]?.[target.name] ?? {};
+function GizmoArrow({ target, axis, length }: { target: THREE.Object3D; axis: Axis; length: number }) {
+  const pickRef = useRef<THREE.Mesh>(null);
+  const materialRef = useRef<THREE.MeshBasicMaterial>(null);
+  // Slides run along the joint's own axes, which are the gizmo frame's.
+  const direction = unitAxis(axis, new THREE.Vector3());
+  const quaternion = new THREE.Quaternion().setFromUnitVectors(CONE_UP, direction);
+
+  useEffect(() => {
+    if (!pickRef.current) {
+      return;
+    }
+
+    return registerGizmoHandle(pickRef.current, { target, kind: 'slide', axis });
+  }, [axis, target]);
+
+  useGizmoHighlight(pickRef, materialRef, axis, 0.9);
+
+  return (
+    <group position={direction.multiplyScalar(length).toArray()} quaternion={quaternion}>
+      <mesh renderOrder={1000}>
+        <coneGeometry args={[0.035, 0.09, 12]} />
+        <meshBasicMaterial ref={materialRef} transparent opacity={0.9} depthWrite={false} depthTest={false} />
+      </mesh>
+      <mesh ref={pickRef} position={[0, -length / 2, 0]}>
+        <cylinderGeometry args={[0.05, 0.05, length + 0.09, 8]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+    </group>
+  );
 }
 
-function JointGizmo({ target, mode }: { target: THREE.Object3D; mode: GizmoMode }) {
+/**
+ * Shows the selected joint's frame, with a ring for each rotation axis it may turn about and an arrow for each axis
+ * it may slide along. Grabbing a ring or arrow drives only that axis.
+ */
+function JointGizmo({ target, constraint }: { target: THREE.Object3D; constraint: JointConstraint }) {
   const groupRef = useRef<THREE.Group>(null);
+  const rotationAxes = isPrismaticJoint(constraint) ? [] : getRotationAxes(constraint);
+  const slideAxes = AXES.filter((axis) => constraint.translation?.[axis]?.enabled);
 
   const lineLength = 0.28;
   const gizmoScale = 0.96;
@@ -217,44 +721,50 @@ function JointGizmo({ target, mode }: { target: THREE.Object3D; mode: GizmoMode
       >
         z
       </Text>
-      {mode === 'rotate' && (
-        <>
-          <mesh rotation={[0, Math.PI / 2, 0]} renderOrder={1000}>
-            <torusGeometry args={[0.22, 0.01, 10, 64]} />
-            <meshBasicMaterial color="#ff6b6b" transparent opacity={0.65} depthWrite={false} depthTest={false} />
-          </mesh>
-          <mesh rotation={[Math.PI / 2, 0, 0]} renderOrder={1000}>
-            <torusGeometry args={[0.24, 0.01, 10, 64]} />
-            <meshBasicMaterial color="#6bff9c" transparent opacity={0.65} depthWrite={false} depthTest={false} />
-          </mesh>
-          <mesh renderOrder={1000}>
-            <torusGeometry args={[0.26, 0.01, 10, 64]} />
-            <meshBasicMaterial color="#6bb7ff" transparent opacity={0.65} depthWrite={false} depthTest={false} />
-          </mesh>
-        </>
-      )}
-      {mode === 'move' && (
-        <>
-          <mesh position={[lineLength, 0, 0]} rotation={[0, 0, -Math.PI / 2]} renderOrder={1000}>
-            <coneGeometry args={[0.035, 0.09, 12]} />
-            <meshBasicMaterial color="#ff6b6b" transparent opacity={0.9} depthWrite={false} depthTest={false} />
-          </mesh>
-          <mesh position={[0, lineLength, 0]} renderOrder={1000}>
-            <coneGeometry args={[0.035, 0.09, 12]} />
-            <meshBasicMaterial color="#6bff9c" transparent opacity={0.9} depthWrite={false} depthTest={false} />
-          </mesh>
-          <mesh position={[0, 0, lineLength]} rotation={[Math.PI / 2, 0, 0]} renderOrder={1000}>
-            <coneGeometry args={[0.035, 0.09, 12]} />
-            <meshBasicMaterial color="#6bb7ff" transparent opacity={0.9} depthWrite={false} depthTest={false} />
-          </mesh>
-        </>
-      )}
+      {rotationAxes.map((axis) => (
+        <GizmoRing key={`r${axis}`} target={target} axis={axis} />
+      ))}
+      {slideAxes.map((axis) => (
+        <GizmoArrow key={`t${axis}`} target={target} axis={axis} length={lineLength} />
+      ))}
     </group>
   );
 }
 
-function ArmModel({ modelPath, onReady }: ArmProps) {
-  const { scene } = useGLTF(modelPath);
+type LoadWarningHandler = (message: string) => void;
+
+function ArmModel({ onLoadWarning, ...props }: ArmProps & { onLoadWarning: LoadWarningHandler }) {
+  return props.model.format === 'urdf' ? <UrdfArm {...props} onLoadWarning={onLoadWarning} /> : <GltfArm {...props} />;
+}
+
+function GltfArm({ model, ...props }: ArmProps) {
+  const { scene } = useGLTF(model.modelPath);
+  return <ArmRig {...props} scene={scene} scale={model.scale} />;
+}
+
+function UrdfArm({ model, onLoadWarning, ...props }: ArmProps & { onLoadWarning: LoadWarningHandler }) {
+  const scene = useLoader(URDFLoader, model.modelPath, (loader) => {
+    loader.packages = model.packages ?? {};
+    loader.files = model.files ?? {};
+  });
+  const missing = scene.userData.missingMeshes as string[];
+
+  useEffect(() => {
+    if (missing.length > 0) {
+      onLoadWarning(`${model.title} is shown without ${missing.join(', ')}, which weren't opened with the URDF.`);
+    }
+  }, [missing, model.title, onLoadWarning]);
+
+  return <ArmRig {...props} scene={scene} scale={model.scale} />;
+}
+
+function ArmRig({
+  armId,
+  scene,
+  scale,
+  position,
+  onReady,
+}: Omit<ArmProps, 'model'> & { scene: THREE.Object3D; scale: number }) {
   const wrapperRef = useRef<THREE.Group>(null);
   const [groundOffset, setGroundOffset] = useState(0);
 
@@ -267,6 +777,10 @@ function ArmModel({ modelPath, onReady }: ArmProps) {
         child.frustumCulled = false;
         child.castShadow = true;
         child.receiveShadow = true;
+        // Own materials per mesh so one link can be tinted (e.g. on collision) without recolouring its twins.
+        child.material = Array.isArray(child.material)
+          ? child.material.map((material) => material.clone())
+          : child.material.clone();
       }
     });
 
@@ -293,6 +807,7 @@ function ArmModel({ modelPath, onReady }: ArmProps) {
 
     const meshes: THREE.Mesh[] = [];
     const bones: THREE.Bone[] = [];
+    const urdfJoints: THREE.Object3D[] = [];
 
     model.traverse((child) => {
       if (child instanceof THREE.Mesh) {
@@ -301,9 +816,13 @@ function ArmModel({ modelPath, onReady }: ArmProps) {
       if (child instanceof THREE.Bone) {
         bones.push(child);
       }
+      if (child.userData.urdfJoint) {
+        urdfJoints.push(child);
+      }
     });
 
-    let joints: THREE.Object3D[] = bones.filter((bone) => bone.parent instanceof THREE.Bone);
+    let joints: THREE.Object3D[] =
+      urdfJoints.length > 0 ? urdfJoints : bones.filter((bone) => bone.parent instanceof THREE.Bone);
 
     if (joints.length === 0) {
       const fallback = new Set<THREE.Object3D>();
@@ -315,11 +834,16 @@ function ArmModel({ modelPath, onReady }: ArmProps) {
       joints = [...fallback];
     }
 
-    onReady(wrapperRef.current, meshes, joints, center, radius);
-  }, [groundOffset, model, onReady]);
+    joints.forEach((joint) => {
+      joint.userData.restPosition ??= joint.position.clone();
+      joint.userData.restQuaternion ??= joint.quaternion.clone();
+    });
+
+    onReady(armId, wrapperRef.current, meshes, joints, center, radius);
+  }, [armId, groundOffset, model, onReady]);
 
   return (
-    <group ref={wrapperRef} position={[0, 0, -1.4]} scale={[0.08, 0.08, 0.08]}>
+    <group ref={wrapperRef} position={position} scale={[scale, scale, scale]}>
       <primitive object={model} position={[0, groundOffset, 0]} />
     </group>
   );
@@ -328,6 +852,8 @@ function ArmModel({ modelPath, onReady }: ArmProps) {
 function SkyboxEnvironment() {
   const { scene } = useThree();
   const skyTexture = useTexture('/skybox.jpg');
+  // In AR the camera feed or passthrough is the background; the sky would paint over it.
+  const passthrough = useXRMode() === 'ar';
 
   useEffect(() => {
     const previousBackground = scene.background;
@@ -337,14 +863,14 @@ function SkyboxEnvironment() {
     skyTexture.colorSpace = THREE.SRGBColorSpace;
     skyTexture.needsUpdate = true;
 
-    scene.background = skyTexture;
+    scene.background = passthrough ? null : skyTexture;
     scene.environment = skyTexture;
 
     return () => {
       scene.background = previousBackground;
       scene.environment = previousEnvironment;
     };
-  }, [scene, skyTexture]);
+  }, [passthrough, scene, skyTexture]);
 
   return null;
 }
@@ -414,43 +940,294 @@ function resolveRotatableTarget(
   return null;
 }
 
+function applyJointDrag(activeDrag: ActiveDrag) {
+  activeDrag.source.getWorldPosition(tempSourcePos);
+
+  const translation = activeDrag.constraints.translation;
+  const parent = activeDrag.target.parent;
+
+  if (translation && parent) {
+    // Measure the drag in the parent's frame so the slide tracks the hand or mouse 1:1 at any arm scale.
+    parent.worldToLocal(tempLocalDelta.copy(tempSourcePos));
+    parent.worldToLocal(tempLocalStart.copy(activeDrag.startSourcePos));
+    tempLocalDelta.sub(tempLocalStart);
+
+    AXES.forEach((axis) => {
+      const slideConstraint = translation[axis];
+      const { handle } = activeDrag;
+      if (!slideConstraint?.enabled || (handle && (handle.kind !== 'slide' || handle.axis !== axis))) {
+        return;
+      }
+
+      getSlideAxis(activeDrag.target, axis, tempSlideAxis);
+      const startOffset = activeDrag.startSlide[axis] ?? 0;
+      const nextOffset = clampIfNeeded(startOffset + tempLocalDelta.dot(tempSlideAxis), slideConstraint);
+      driveAxis(activeDrag.target, 'slide', axis, nextOffset, slideConstraint);
+    });
+  }
+
+  const rotationAxes = Object.keys(activeDrag.tangents) as Axis[];
+
+  if (activeDrag.twist && rotationAxes.length === 1) {
+    const axis = rotationAxes[0];
+    const axisWorld = activeDrag.rotationAxes[axis]!;
+
+    // Swing-twist split of the controller's rotation since the grab: keep only the roll about the hinge axis.
+    activeDrag.source.getWorldQuaternion(tempSourceQuat);
+    tempDeltaQuat.copy(activeDrag.startSourceQuat).invert().premultiply(tempSourceQuat);
+    const along = tempDeltaQuat.x * axisWorld.x + tempDeltaQuat.y * axisWorld.y + tempDeltaQuat.z * axisWorld.z;
+    const twistAngle = 2 * Math.atan2(along * Math.sign(tempDeltaQuat.w || 1), Math.abs(tempDeltaQuat.w));
+
+    const axisConstraint = activeDrag.constraints[axis];
+    driveAxis(
+      activeDrag.target,
+      'rotation',
+      axis,
+      clampIfNeeded(activeDrag.startRotation[axis] + twistAngle, axisConstraint),
+      axisConstraint,
+    );
+    return;
+  }
+
+  tempDragDelta.copy(tempSourcePos).sub(activeDrag.startSourcePos);
+
+  rotationAxes.forEach((axis) => {
+    const turned = tempDragDelta.dot(activeDrag.tangents[axis]!) / activeDrag.radii[axis]!;
+    const axisConstraint = activeDrag.constraints[axis];
+    driveAxis(
+      activeDrag.target,
+      'rotation',
+      axis,
+      clampIfNeeded(activeDrag.startRotation[axis] + turned, axisConstraint),
+      axisConstraint,
+    );
+  });
+}
+
+function createJointDrag(
+  armId: string,
+  source: THREE.Object3D,
+  target: THREE.Object3D,
+  grabPoint: THREE.Vector3,
+  constraints: JointConstraint,
+  twist: boolean,
+  handle: GizmoHandle | null = null,
+): ActiveDrag {
+  const startSourcePos = source.getWorldPosition(new THREE.Vector3());
+  const pivot = target.getWorldPosition(new THREE.Vector3());
+  const rotationAxes: ActiveDrag['rotationAxes'] = {};
+  const tangents: ActiveDrag['tangents'] = {};
+  const radii: ActiveDrag['radii'] = {};
+  // A grabbed handle turns only its own axis; a grabbed arrow or a prismatic joint turns none.
+  let dragAxes = isPrismaticJoint(constraints) ? [] : getRotationAxes(constraints);
+  if (handle) {
+    dragAxes = handle.kind === 'rotation' ? [handle.axis] : [];
+  }
+
+  dragAxes.forEach((axis) => {
+    const axisWorld = getRotationAxisWorld(target, axis, new THREE.Vector3());
+    const lever = grabPoint.clone().sub(pivot).projectOnPlane(axisWorld);
+
+    // Grabbed right on the axis (a turntable hit at its center): lever toward the user instead.
+    if (lever.lengthSq() < 1e-8) {
+      lever.copy(startSourcePos).sub(pivot).projectOnPlane(axisWorld);
+    }
+    if (lever.lengthSq() < 1e-8) {
+      return;
+    }
+
+    rotationAxes[axis] = axisWorld;
+    tangents[axis] = new THREE.Vector3().crossVectors(axisWorld, lever).normalize();
+    radii[axis] = lever.length();
+  });
+
+  return {
+    armId,
+    source,
+    target,
+    startSourcePos,
+    startSourceQuat: source.getWorldQuaternion(new THREE.Quaternion()),
+    startRotation: target.rotation.clone(),
+    startSlide: Object.fromEntries(AXES.map((axis) => [axis, getSlideOffset(target, axis)])),
+    rotationAxes,
+    tangents,
+    radii,
+    twist,
+    constraints,
+    handle,
+    before: captureTransforms([target]),
+  };
+}
+
+// How far apart two hands are, and the heading about the vertical of the line from the first to the second.
+function readHands(a: THREE.Object3D, b: THREE.Object3D, midpoint: THREE.Vector3): { span: number; yaw: number } {
+  a.getWorldPosition(tempHandA);
+  b.getWorldPosition(tempHandB);
+  midpoint.copy(tempHandA).add(tempHandB).multiplyScalar(0.5);
+  const yaw = Math.atan2(tempHandB.x - tempHandA.x, tempHandB.z - tempHandA.z);
+  return { span: tempHandA.distanceTo(tempHandB), yaw };
+}
+
+// The second hand joins a one-handed move of the same arm.
+function createTwoHandGrab(move: ActiveMove, source: THREE.Object3D, realScale: number): ActiveTwoHandGrab {
+  const startMidpoint = new THREE.Vector3();
+  const { span, yaw } = readHands(move.source, source, startMidpoint);
+
+  return {
+    sources: [move.source, source],
+    root: move.root,
+    realScale,
+    startMidpoint,
+    startSpan: Math.max(span, 0.01),
+    startYaw: yaw,
+    startRootPos: move.root.position.clone(),
+    startRootQuat: move.root.quaternion.clone(),
+    startScale: move.root.scale.x,
+    before: move.before,
+  };
+}
+
+// One hand lets go of a two-handed grab: the other carries on moving the arm alone.
+function releaseOneHand(grab: ActiveTwoHandGrab, released: THREE.Object3D): ActiveMove {
+  const source = grab.sources[0] === released ? grab.sources[1] : grab.sources[0];
+  return {
+    source,
+    root: grab.root,
+    startSourcePos: source.getWorldPosition(new THREE.Vector3()),
+    startRootPos: grab.root.position.clone(),
+    before: grab.before,
+  };
+}
+
+/**
+ * Turns the arm about the vertical by as much as the line between the hands has turned, and scales it by how far
+ * they have spread, keeping its base's height so it doesn't sink through the floor as it grows. Returns the scale
+ * reached, as a multiple of the arm's real scale.
+ */
+function applyTwoHandGrab(grab: ActiveTwoHandGrab): number {
+  const { span, yaw } = readHands(grab.sources[0], grab.sources[1], tempHandMidpoint);
+  let ratio = THREE.MathUtils.clamp(
+    (grab.startScale * span) / grab.startSpan / grab.realScale,
+    MIN_GRAB_SCALE,
+    MAX_GRAB_SCALE,
+  );
+  if (Math.abs(ratio - 1) < REAL_SCALE_SNAP) {
+    ratio = 1;
+  }
+
+  const scale = ratio * grab.realScale;
+  const turn = yaw - grab.startYaw;
+  const { root } = grab;
+
+  tempArmOffset.copy(grab.startRootPos).sub(grab.startMidpoint).setY(0);
+  tempArmOffset.applyAxisAngle(WORLD_UP, turn).multiplyScalar(scale / grab.startScale);
+  root.position.copy(tempHandMidpoint).add(tempArmOffset);
+  root.position.y = grab.startRootPos.y + tempHandMidpoint.y - grab.startMidpoint.y;
+  root.quaternion.copy(tempGrabTurn.setFromAxisAngle(WORLD_UP, turn)).multiply(grab.startRootQuat);
+  root.scale.setScalar(scale);
+
+  return ratio;
+}
+
+function formatArmScale(ratio: number): string {
+  return ratio === 1 ? '1:1 real scale' : `${ratio.toFixed(ratio < 1 ? 2 : 1)}× real scale`;
+}
+
+function setRayFromController(controller: THREE.Object3D) {
+  tempMatrix.identity().extractRotation(controller.matrixWorld);
+  raycaster.ray.origin.setFromMatrixPosition(controller.matrixWorld);
+  raycaster.ray.direction.set(0, 0, -1).applyMatrix4(tempMatrix);
+}
+
+function applyReach(activeReach: ActiveReach, chain: IKLink[], effector: THREE.Object3D) {
+  activeReach.source.getWorldPosition(tempSourcePos);
+  activeReach.goal.copy(activeReach.startGoal).add(tempSourcePos).sub(activeReach.startSourcePos);
+  activeReach.error = solveCCD(chain, effector, activeReach.goal, { tolerance: IK_TOLERANCE });
+}
+
 function XRInteraction({
-  armRoot,
-  pickableMeshes,
-  rotatableTargets,
-  selectedModelId,
+  arms,
+  activeArmId,
+  interactionMode,
+  hingeTwist,
+  isJointLocked,
+  placementPending,
+  measuring,
+  onActivateArm,
   onActiveJointChange,
+  onActiveReachChange,
+  onClearSelection,
+  onMeasurePoint,
+  onRecordHistory,
+  onRedo,
+  onToggleInteractionMode,
+  onUndo,
 }: {
-  armRoot: THREE.Object3D | null;
-  pickableMeshes: THREE.Mesh[];
-  rotatableTargets: THREE.Object3D[];
-  selectedModelId: ModelId;
-  onActiveJointChange: (target: THREE.Object3D | null, mode?: GizmoMode) => void;
+  // Every arm in the scene; a select or squeeze goes to whichever one it hits.
+  arms: InteractiveArm[];
+  // Squeezing at nothing moves this one, and entering VR brings it (and the rest with it) in front of the user.
+  activeArmId: string | null;
+  interactionMode: InteractionMode;
+  hingeTwist: boolean;
+  // True for joints someone else in a shared session is holding.
+  isJointLocked: (joint: THREE.Object3D) => boolean;
+  // An AR session is still choosing where to put the arm; selects go to placement, not the arm.
+  placementPending: boolean;
+  // Selects drop measuring points where the ray meets an arm instead of grabbing it.
+  measuring: boolean;
+  onActivateArm: (armId: string) => void;
+  onActiveJointChange: (target: THREE.Object3D | null) => void;
+  onActiveReachChange: (reach: ActiveReach | null) => void;
+  // Pointing at nothing and pulling the trigger puts the gizmo away.
+  onClearSelection: () => void;
+  onMeasurePoint: (hit: THREE.Intersection) => void;
+  // Called as a drag, reach or move is let go, with the objects as they were when it started.
+  onRecordHistory: (label: string, before: ObjectTransform[]) => void;
+  onRedo: () => void;
+  onToggleInteractionMode: () => void;
+  onUndo: () => void;
 }) {
   const { gl, scene } = useThree();
   const activeDragRef = useRef<ActiveDrag | null>(null);
+  const activeReachRef = useRef<ActiveReach | null>(null);
   const activeMoveRef = useRef<ActiveMove | null>(null);
+  const activeTwoHandRef = useRef<ActiveTwoHandGrab | null>(null);
+  const scaleLabelRef = useRef<THREE.Group>(null);
+  const [scaleLabel, setScaleLabel] = useState<string | null>(null);
   const controllersRef = useRef<THREE.Group[]>([]);
+  const handsRef = useRef<TrackedHand[]>([]);
   const placeInFrontRef = useRef(false);
+  const pickableMeshes = useMemo(() => arms.flatMap((arm) => arm.meshes), [arms]);
 
   useEffect(() => {
     gl.xr.enabled = true;
 
-    const button = VRButton.createButton(gl);
+    const button = VRButton.createButton(gl, { optionalFeatures: ['hand-tracking'] });
     document.body.appendChild(button);
 
     button.style.position = 'absolute';
     button.style.right = '16px';
     button.style.bottom = '16px';
+    button.addEventListener('click', () => setRequestedXRMode('vr'), true);
+
+    const arButton = ARButton.createButton(gl, { requiredFeatures: ['hit-test'], optionalFeatures: ['hand-tracking'] });
+    document.body.appendChild(arButton);
+
+    arButton.style.position = 'absolute';
+    arButton.style.right = '16px';
+    arButton.style.bottom = '64px';
+    arButton.addEventListener('click', () => setRequestedXRMode('ar'), true);
 
     return () => {
       button.remove();
+      arButton.remove();
     };
   }, [gl]);
 
   useEffect(() => {
+    // In AR the arm waits to be put down on a real surface instead (see `ARPlacement`).
     const onSessionStart = () => {
-      placeInFrontRef.current = true;
+      placeInFrontRef.current = getXRMode(gl) !== 'ar';
     };
 
     gl.xr.addEventListener('sessionstart', onSessionStart);
@@ -462,6 +1239,7 @@ function XRInteraction({
 
   useEffect(() => {
     const modelFactory = new XRControllerModelFactory();
+    const handFactory = new XRHandModelFactory();
 
     for (let i = 0; i < 2; i += 1) {
       const controller = gl.xr.getController(i);
@@ -470,10 +1248,12 @@ function XRInteraction({
 
       const onConnected = (event: any) => {
         controller.userData.handedness = event.data?.handedness ?? 'unknown';
+        controller.userData.inputSource = event.data;
       };
 
       const onDisconnected = () => {
         controller.userData.handedness = 'unknown';
+        controller.userData.inputSource = undefined;
       };
 
       controller.addEventListener('connected', onConnected);
@@ -495,7 +1275,18 @@ function XRInteraction({
       controllerGrip.add(modelFactory.createControllerModel(controllerGrip));
       scene.add(controllerGrip);
 
+      const hand = gl.xr.getHand(i);
+      const handModel = handFactory.createHandModel(hand, 'mesh');
+      hand.add(handModel);
+      hand.userData.handModel = handModel;
+      scene.add(hand);
+
+      const pinch = new THREE.Object3D();
+      pinch.name = 'pinch';
+      scene.add(pinch);
+
       controllersRef.current[i] = controller;
+      handsRef.current[i] = { hand, pinch, grabbing: false };
     }
 
     return () => {
@@ -517,7 +1308,14 @@ function XRInteraction({
         scene.remove(controller);
         scene.remove(grip);
       });
+      handsRef.current.forEach(({ hand, pinch }) => {
+        // Only the model: the joint spaces three.js keeps under the hand must stay attached.
+        hand.remove(hand.userData.handModel as THREE.Object3D);
+        scene.remove(hand);
+        scene.remove(pinch);
+      });
       controllersRef.current = [];
+      handsRef.current = [];
     };
   }, [gl, scene]);
 
@@ -530,68 +1328,159 @@ function XRInteraction({
       onSqueezeEnd: () => void;
     }> = [];
 
+    // A tracked hand pinches where a controller would pull the trigger; its drags follow the pinch point.
+    const getDragSource = (controller: THREE.Group): THREE.Object3D => {
+      const tracked = handsRef.current[Number(controller.userData.index)];
+      const isHand = Boolean((controller.userData.inputSource as XRInputSource | undefined)?.hand);
+      return isHand && tracked && updatePinchProxy(tracked.hand, tracked.pinch) ? tracked.pinch : controller;
+    };
+
     const makeSelectStartHandler = (controller: THREE.Group) => () => {
-      if (!armRoot || pickableMeshes.length === 0 || rotatableTargets.length === 0) {
+      setRayFromController(controller);
+
+      const button = hitXRButton(raycaster);
+      if (button) {
+        button.onPress(button.hit);
+        return;
+      }
+
+      if (placementPending || pickableMeshes.length === 0) {
         return;
       }
 
-      tempMatrix.identity().extractRotation(controller.matrixWorld);
-      raycaster.ray.origin.setFromMatrixPosition(controller.matrixWorld);
-      raycaster.ray.direction.set(0, 0, -1).applyMatrix4(tempMatrix);
+      if (measuring) {
+        const hit = raycaster.intersectObjects(pickableMeshes, true)[0];
+        if (hit) {
+          onMeasurePoint(hit);
+        }
+        return;
+      }
 
-      const intersections = raycaster.intersectObjects(pickableMeshes, true);
-      const firstHit = intersections[0];
+      const source = getDragSource(controller);
+      const gizmoHit = hitGizmoHandle(raycaster);
+      if (gizmoHit) {
+        const { target } = gizmoHit.handle;
+        const arm = findArmOf(target, arms);
+        if (!arm || isJointLocked(target)) {
+          return;
+        }
 
-      if (!firstHit) {
+        const constraints = getJointConstraint(arm.constraints, target);
+        const { hit, handle } = gizmoHit;
+        activeDragRef.current = createJointDrag(arm.id, source, target, hit.point, constraints, hingeTwist, handle);
+        setGizmoHover(controller, gizmoHit.hit.object);
+        onActiveJointChange(target);
         return;
       }
 
-      const targetJoint = resolveRotatableTarget(firstHit.object, firstHit.point, armRoot, rotatableTargets);
-      if (!targetJoint) {
+      // A pinch right at a link takes hold of it; otherwise whatever the hand or controller points at.
+      const nearMesh = source !== controller ? findNearestMesh(source.position, pickableMeshes, NEAR_PINCH_RADIUS) : null;
+      const firstHit = nearMesh
+        ? { object: nearMesh as THREE.Object3D, point: source.position.clone() }
+        : raycaster.intersectObjects(pickableMeshes, true)[0];
+      const arm = firstHit ? findArmOf(firstHit.object, arms) : null;
+
+      if (!firstHit || !arm) {
+        onClearSelection();
         return;
       }
 
-      controller.getWorldPosition(tempControllerPos);
-      const handedness = String(controller.userData.handedness ?? 'unknown');
-      const gizmoMode: GizmoMode = handedness === 'left' ? 'rotate' : 'move';
+      onActivateArm(arm.id);
 
-      activeDragRef.current = {
-        controllerIndex: Number(controller.userData.index),
-        target: targetJoint,
-        startControllerPos: tempControllerPos.clone(),
-        startRotationX: targetJoint.rotation.x,
-        startRotationY: targetJoint.rotation.y,
-        constraints: getJointConstraint(selectedModelId, targetJoint),
-      };
+      if (interactionMode === 'ik') {
+        if (!arm.endEffector || arm.ikChain.length === 0 || arm.ikJoints.some(isJointLocked)) {
+          return;
+        }
+
+        source.getWorldPosition(tempControllerPos);
+        const startGoal = arm.endEffector.getWorldPosition(new THREE.Vector3());
+        activeReachRef.current = {
+          armId: arm.id,
+          source,
+          startSourcePos: tempControllerPos.clone(),
+          startGoal,
+          goal: startGoal.clone(),
+          error: 0,
+          before: captureTransforms(arm.ikJoints),
+        };
+
+        onActiveReachChange(activeReachRef.current);
+        return;
+      }
+
+      const targetJoint = resolveRotatableTarget(firstHit.object, firstHit.point, arm.root, arm.rotatableTargets);
+      if (!targetJoint || isJointLocked(targetJoint)) {
+        return;
+      }
 
-      onActiveJointChange(targetJoint, gizmoMode);
+      const constraints = getJointConstraint(arm.constraints, targetJoint);
+      activeDragRef.current = createJointDrag(arm.id, source, targetJoint, firstHit.point, constraints, hingeTwist);
+
+      onActiveJointChange(targetJoint);
     };
 
     const makeSelectEndHandler = (controller: THREE.Group) => () => {
+      const pinch = handsRef.current[Number(controller.userData.index)]?.pinch;
+      const isOwnSource = (source: THREE.Object3D) => source === controller || source === pinch;
+
       const active = activeDragRef.current;
-      if (active && active.controllerIndex === Number(controller.userData.index)) {
+      if (active && isOwnSource(active.source)) {
         activeDragRef.current = null;
         onActiveJointChange(null);
+        onRecordHistory(`Drag ${active.target.name}`, active.before);
+      }
+
+      const reach = activeReachRef.current;
+      if (reach && isOwnSource(reach.source)) {
+        activeReachRef.current = null;
+        onActiveReachChange(null);
+        onRecordHistory('Reach', reach.before);
       }
     };
 
     const makeSqueezeStartHandler = (controller: THREE.Group) => () => {
-      if (!armRoot) {
+      if (placementPending || activeTwoHandRef.current) {
+        return;
+      }
+
+      // Squeezing with the other hand too takes hold of the same arm with both.
+      const move = activeMoveRef.current;
+      if (move && move.source !== controller) {
+        const realScale = findArmOf(move.root, arms)?.realScale ?? move.root.scale.x;
+        activeTwoHandRef.current = createTwoHandGrab(move, controller, realScale);
+        activeMoveRef.current = null;
+        return;
+      }
+
+      // Squeezing while pointing at an arm moves that one; pointing at nothing, the active arm.
+      setRayFromController(controller);
+      const hit = raycaster.intersectObjects(pickableMeshes, true)[0];
+      const arm = (hit && findArmOf(hit.object, arms)) ?? arms.find((candidate) => candidate.id === activeArmId);
+      if (!arm) {
         return;
       }
 
-      controller.getWorldPosition(tempControllerPos);
       activeMoveRef.current = {
-        controllerIndex: Number(controller.userData.index),
-        startControllerPos: tempControllerPos.clone(),
-        startRootPos: armRoot.position.clone(),
+        source: controller,
+        root: arm.root,
+        startSourcePos: controller.getWorldPosition(new THREE.Vector3()),
+        startRootPos: arm.root.position.clone(),
+        before: captureTransforms([arm.root]),
       };
     };
 
     const makeSqueezeEndHandler = (controller: THREE.Group) => () => {
-      const active = activeMoveRef.current;
-      if (active && active.controllerIndex === Number(controller.userData.index)) {
+      const twoHand = activeTwoHandRef.current;
+      if (twoHand?.sources.includes(controller)) {
+        activeTwoHandRef.current = null;
+        activeMoveRef.current = releaseOneHand(twoHand, controller);
+        return;
+      }
+
+      const move = activeMoveRef.current;
+      if (move?.source === controller) {
         activeMoveRef.current = null;
+        onRecordHistory('Move arm', move.before);
       }
     };
 
@@ -621,25 +1510,79 @@ function XRInteraction({
         controller.removeEventListener('squeezeend', onSqueezeEnd);
       });
     };
-  }, [armRoot, onActiveJointChange, pickableMeshes, rotatableTargets, selectedModelId]);
+  }, [
+    activeArmId,
+    arms,
+    hingeTwist,
+    interactionMode,
+    isJointLocked,
+    measuring,
+    onActivateArm,
+    onActiveJointChange,
+    onActiveReachChange,
+    onClearSelection,
+    onMeasurePoint,
+    onRecordHistory,
+    pickableMeshes,
+    placementPending,
+  ]);
 
   useFrame(() => {
-    if (placeInFrontRef.current && armRoot) {
+    const activeArm = arms.find((arm) => arm.id === activeArmId) ?? null;
+
+    if (placeInFrontRef.current && activeArm) {
+      const { root } = activeArm;
       const xrCamera = gl.xr.getCamera();
       xrCamera.getWorldPosition(tempHeadPos);
       xrCamera.getWorldQuaternion(tempHeadQuat);
 
       tempForward.set(0, 0, -1).applyQuaternion(tempHeadQuat).normalize();
-      armRoot.position.copy(tempHeadPos).addScaledVector(tempForward, 1.0).add(new THREE.Vector3(0, -0.35, 0));
-
+      tempHeadPos.addScaledVector(tempForward, 1.0).add(new THREE.Vector3(0, -0.35, 0));
       tempEuler.setFromQuaternion(tempHeadQuat, 'YXZ');
-      armRoot.rotation.set(0, tempEuler.y, 0);
+
+      // The other arms come along, keeping where they stand relative to the active one.
+      const turn = tempEuler.y - root.rotation.y;
+      arms.forEach((arm) => {
+        if (arm !== activeArm) {
+          tempArmOffset.copy(arm.root.position).sub(root.position).applyAxisAngle(WORLD_UP, turn);
+          arm.root.position.copy(tempHeadPos).add(tempArmOffset);
+          arm.root.rotation.y += turn;
+        }
+      });
+
+      root.position.copy(tempHeadPos);
+      root.rotation.set(0, tempEuler.y, 0);
 
       placeInFrontRef.current = false;
     }
 
+    // The primary face button (A or X) flips between joint dragging and reaching for the tip.
+    controllersRef.current.forEach((controller) => {
+      if (!controller) {
+        return;
+      }
+
+      const gamepad = (controller.userData.inputSource as XRInputSource | undefined)?.gamepad;
+      const pressed = Boolean(gamepad?.buttons[4]?.pressed);
+      if (pressed && !controller.userData.modeButtonPressed) {
+        onToggleInteractionMode();
+      }
+      controller.userData.modeButtonPressed = pressed;
+
+      // The secondary face button undoes on the right controller (B) and redoes on the left (Y).
+      const historyPressed = Boolean(gamepad?.buttons[5]?.pressed);
+      if (historyPressed && !controller.userData.historyButtonPressed) {
+        if (controller.userData.handedness === 'left') {
+          onRedo();
+        } else {
+          onUndo();
+        }
+      }
+      controller.userData.historyButtonPressed = historyPressed;
+    });
+
     controllersRef.current.forEach((controller) => {
-      if (!controller || pickableMeshes.length === 0 || !armRoot) {
+      if (!controller) {
         return;
       }
 
@@ -649,65 +1592,761 @@ function XRInteraction({
       }
 
       const laserMaterial = laser.material as THREE.LineBasicMaterial;
+      setRayFromController(controller);
+
+      const button = hitXRButton(raycaster);
+      if (button) {
+        laser.scale.z = Math.max(0.05, button.hit.distance);
+        laserMaterial.color.set('#6bb7ff');
+        setGizmoHover(controller, null);
+        return;
+      }
+
+      // A held handle stays lit however far the ray wanders off it during the drag.
+      const held = activeDragRef.current;
+      const pinch = handsRef.current[Number(controller.userData.index)]?.pinch;
+      const holding = held?.handle && (held.source === controller || held.source === pinch);
+      const gizmoHit = hitGizmoHandle(raycaster);
+      if (!holding) {
+        setGizmoHover(controller, gizmoHit?.hit.object ?? null);
+      }
+      if (gizmoHit) {
+        laser.scale.z = Math.max(0.05, gizmoHit.hit.distance);
+        laserMaterial.color.set(isJointLocked(gizmoHit.handle.target) ? '#ff3b3b' : '#ffd166');
+        return;
+      }
 
-      tempMatrix.identity().extractRotation(controller.matrixWorld);
-      raycaster.ray.origin.setFromMatrixPosition(controller.matrixWorld);
-      raycaster.ray.direction.set(0, 0, -1).applyMatrix4(tempMatrix);
+      if (pickableMeshes.length === 0) {
+        laser.scale.z = 4;
+        laserMaterial.color.set('#ff3b3b');
+        return;
+      }
 
       const intersections = raycaster.intersectObjects(pickableMeshes, true);
       const hit = intersections[0];
+      const arm = hit ? findArmOf(hit.object, arms) : null;
 
-      if (hit) {
+      if (hit && arm) {
         laser.scale.z = Math.max(0.05, hit.distance);
-        const target = resolveRotatableTarget(hit.object, hit.point, armRoot, rotatableTargets);
-        laserMaterial.color.set(target ? '#ffffff' : '#ff3b3b');
+        if (measuring) {
+          laserMaterial.color.set('#6bffe8');
+        } else {
+          const target = resolveRotatableTarget(hit.object, hit.point, arm.root, arm.rotatableTargets);
+          laserMaterial.color.set(target && !isJointLocked(target) ? '#ffffff' : '#ff3b3b');
+        }
       } else {
         laser.scale.z = 4;
         laserMaterial.color.set('#ff3b3b');
       }
     });
 
-    const activeMove = activeMoveRef.current;
-    if (activeMove && armRoot) {
-      const controller = controllersRef.current[activeMove.controllerIndex];
-      if (controller) {
-        controller.getWorldPosition(tempControllerPos);
-        const delta = tempControllerPos.clone().sub(activeMove.startControllerPos);
-        armRoot.position.copy(activeMove.startRootPos).add(delta);
+    // Hands: keep each pinch point current for the drags it drives, and treat a fist like a squeeze.
+    handsRef.current.forEach((tracked) => {
+      updatePinchProxy(tracked.hand, tracked.pinch);
+
+      const wrist = tracked.hand.joints.wrist;
+      const grabbing = isHandGrabbing(tracked.hand, tracked.grabbing);
+      const heldMove = activeMoveRef.current;
+      if (grabbing && !tracked.grabbing && wrist && heldMove && !activeTwoHandRef.current && !placementPending) {
+        // A fist with the other hand as well: both hands on the arm.
+        const realScale = findArmOf(heldMove.root, arms)?.realScale ?? heldMove.root.scale.x;
+        activeTwoHandRef.current = createTwoHandGrab(heldMove, wrist, realScale);
+        activeMoveRef.current = null;
+      } else if (grabbing && !tracked.grabbing && wrist && !activeTwoHandRef.current && !placementPending) {
+        // A fist closed at an arm moves that one; anywhere else, the active arm.
+        const startSourcePos = wrist.getWorldPosition(new THREE.Vector3());
+        const nearMesh = findNearestMesh(startSourcePos, pickableMeshes, FIST_REACH);
+        const arm = (nearMesh && findArmOf(nearMesh, arms)) ?? activeArm;
+        if (arm) {
+          activeMoveRef.current = {
+            source: wrist,
+            root: arm.root,
+            startSourcePos,
+            startRootPos: arm.root.position.clone(),
+            before: captureTransforms([arm.root]),
+          };
+        }
       }
-    }
+      const heldTwoHand = activeTwoHandRef.current;
+      const move = activeMoveRef.current;
+      if (!grabbing && wrist && heldTwoHand?.sources.includes(wrist)) {
+        activeTwoHandRef.current = null;
+        activeMoveRef.current = releaseOneHand(heldTwoHand, wrist);
+      } else if (!grabbing && wrist && move?.source === wrist) {
+        activeMoveRef.current = null;
+        onRecordHistory('Move arm', move.before);
+      }
+      tracked.grabbing = grabbing;
+    });
 
-    const activeDrag = activeDragRef.current;
-    if (!activeDrag) {
-      return;
+    const activeMove = activeMoveRef.current;
+    if (activeMove) {
+      activeMove.source.getWorldPosition(tempControllerPos);
+      activeMove.root.position.copy(activeMove.startRootPos).add(tempControllerPos).sub(activeMove.startSourcePos);
     }
 
-    const controller = controllersRef.current[activeDrag.controllerIndex];
-    if (!controller) {
-      return;
+    // The scale being reached floats between the hands while both hold the arm.
+    const twoHand = activeTwoHandRef.current;
+    const label = twoHand ? formatArmScale(applyTwoHandGrab(twoHand)) : null;
+    if (twoHand && scaleLabelRef.current) {
+      scaleLabelRef.current.position.copy(tempHandMidpoint).y += 0.12;
     }
+    if (label !== scaleLabel) {
+      setScaleLabel(label);
+    }
+
+    // Someone else in the session won the joint first, or the arm was taken out of the scene: let go of it.
+    const activeReach = activeReachRef.current;
+    const reachArm = activeReach ? arms.find((arm) => arm.id === activeReach.armId) : undefined;
+    if (activeReach && (!reachArm || reachArm.ikJoints.some(isJointLocked))) {
+      activeReachRef.current = null;
+      onActiveReachChange(null);
+    } else if (activeReach && reachArm?.endEffector) {
+      const { collisionGuard, ikChain, ikJoints, endEffector } = reachArm;
+      guardPose(collisionGuard, ikJoints, () => applyReach(activeReach, ikChain, endEffector));
+    }
+
+    const activeDrag = activeDragRef.current;
+    const dragArm = activeDrag ? arms.find((arm) => arm.id === activeDrag.armId) : undefined;
+    if (activeDrag && (!dragArm || isJointLocked(activeDrag.target))) {
+      activeDragRef.current = null;
+      onActiveJointChange(null);
+    } else if (activeDrag && dragArm) {
+      guardPose(dragArm.collisionGuard, [activeDrag.target], () => applyJointDrag(activeDrag));
+    }
+  });
+
+  return (
+    <group ref={scaleLabelRef}>
+      {scaleLabel && (
+        <Billboard>
+          <Text
+            color={scaleLabel === formatArmScale(1) ? '#6bff9c' : '#eaf2ff'}
+            fontSize={0.035}
+            anchorX="center"
+            anchorY="bottom"
+            outlineWidth={0.002}
+            outlineColor="#0a1428"
+          >
+            {scaleLabel}
+          </Text>
+        </Billboard>
+      )}
+    </group>
+  );
+}
+
+function PointerInteraction({
+  arms,
+  interactionMode,
+  isJointLocked,
+  measuring,
+  onActivateArm,
+  onActiveJointChange,
+  onActiveReachChange,
+  onClearSelection,
+  onMeasurePoint,
+  onRecordHistory,
+}: {
+  arms: InteractiveArm[];
+  interactionMode: InteractionMode;
+  isJointLocked: (joint: THREE.Object3D) => boolean;
+  // Clicks on an arm drop measuring points instead of grabbing it; everywhere else they still orbit.
+  measuring: boolean;
+  onActivateArm: (armId: string) => void;
+  onActiveJointChange: (target: THREE.Object3D | null) => void;
+  onActiveReachChange: (reach: ActiveReach | null) => void;
+  // A click (not an orbit drag) on empty space puts the gizmo away.
+  onClearSelection: () => void;
+  onMeasurePoint: (hit: THREE.Intersection) => void;
+  onRecordHistory: (label: string, before: ObjectTransform[]) => void;
+}) {
+  const { camera, gl } = useThree();
+  const controls = useThree((state) => state.controls) as unknown as { enabled: boolean } | null;
+  const activeDragRef = useRef<ActiveDrag | null>(null);
+  const activeReachRef = useRef<ActiveReach | null>(null);
+  const endDragRef = useRef<(() => void) | null>(null);
+  const clickStartRef = useRef<THREE.Vector2 | null>(null);
+  const pointerProxy = useMemo(() => new THREE.Object3D(), []);
+  const pickableMeshes = useMemo(() => arms.flatMap((arm) => arm.meshes), [arms]);
+
+  useEffect(() => {
+    const element = gl.domElement;
+
+    const castFromPointer = (event: PointerEvent) => {
+      const rect = element.getBoundingClientRect();
+      pointerNdc.set(
+        ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      );
+      raycaster.setFromCamera(pointerNdc, camera);
+    };
+
+    const pickSurface = (event: PointerEvent) => {
+      castFromPointer(event);
+      return raycaster.intersectObjects(pickableMeshes, true)[0] ?? null;
+    };
+
+    const pickHandle = (event: PointerEvent) => {
+      castFromPointer(event);
+      const gizmoHit = hitGizmoHandle(raycaster);
+      const arm = gizmoHit && findArmOf(gizmoHit.handle.target, arms);
+      return gizmoHit && arm && !isJointLocked(gizmoHit.handle.target) ? { ...gizmoHit, arm } : null;
+    };
+
+    const pickTarget = (event: PointerEvent) => {
+      if (pickableMeshes.length === 0) {
+        return null;
+      }
+
+      castFromPointer(event);
+      const firstHit = raycaster.intersectObjects(pickableMeshes, true)[0];
+      const arm = firstHit && findArmOf(firstHit.object, arms);
+      if (!firstHit || !arm) {
+        return null;
+      }
+
+      const target = resolveRotatableTarget(firstHit.object, firstHit.point, arm.root, arm.rotatableTargets);
+      return target && !isJointLocked(target) ? { arm, target, point: firstHit.point, handle: null } : null;
+    };
+
+    const endDrag = (pointerId?: number) => {
+      const drag = activeDragRef.current;
+      const reach = activeReachRef.current;
+      if (!drag && !reach) {
+        return;
+      }
+
+      if (reach) {
+        activeReachRef.current = null;
+        onActiveReachChange(null);
+        onRecordHistory('Reach', reach.before);
+      }
+
+      if (drag) {
+        activeDragRef.current = null;
+        onRecordHistory(`Drag ${drag.target.name}`, drag.before);
+      }
+
+      if (controls) {
+        controls.enabled = true;
+      }
+      if (pointerId !== undefined && element.hasPointerCapture(pointerId)) {
+        element.releasePointerCapture(pointerId);
+      }
+      element.style.cursor = '';
+      setGizmoHover(pointerProxy, null);
+      onActiveJointChange(null);
+    };
+
+    const onPointerDown = (event: PointerEvent) => {
+      clickStartRef.current = null;
+      if (gl.xr.isPresenting || event.button !== 0) {
+        return;
+      }
+
+      if (measuring) {
+        const hit = pickSurface(event);
+        if (hit) {
+          onMeasurePoint(hit);
+          event.stopImmediatePropagation();
+        }
+        return;
+      }
+
+      const gizmoHit = pickHandle(event);
+      const picked = gizmoHit
+        ? { arm: gizmoHit.arm, target: gizmoHit.handle.target, point: gizmoHit.hit.point, handle: gizmoHit.handle }
+        : pickTarget(event);
+      if (!picked) {
+        clickStartRef.current = new THREE.Vector2(event.clientX, event.clientY);
+        return;
+      }
+
+      const { arm } = picked;
+      onActivateArm(arm.id);
+      if (
+        !picked.handle &&
+        interactionMode === 'ik' &&
+        (!arm.endEffector || arm.ikChain.length === 0 || arm.ikJoints.some(isJointLocked))
+      ) {
+        return;
+      }
+
+      // Drag across a camera-facing plane through the hit, so mouse motion becomes world motion at the joint's depth.
+      camera.getWorldDirection(tempForward);
+      dragPlane.setFromNormalAndCoplanarPoint(tempForward, picked.point);
+      pointerProxy.position.copy(picked.point);
+
+      const constraints = getJointConstraint(arm.constraints, picked.target);
+
+      if (interactionMode === 'ik' && arm.endEffector && !picked.handle) {
+        const startGoal = arm.endEffector.getWorldPosition(new THREE.Vector3());
+        activeReachRef.current = {
+          armId: arm.id,
+          source: pointerProxy,
+          startSourcePos: picked.point.clone(),
+          startGoal,
+          goal: startGoal.clone(),
+          error: 0,
+          before: captureTransforms(arm.ikJoints),
+        };
+      } else {
+        const { target, point, handle } = picked;
+        activeDragRef.current = createJointDrag(arm.id, pointerProxy, target, point, constraints, false, handle);
+        setGizmoHover(pointerProxy, gizmoHit?.hit.object ?? null);
+      }
+
+      // Registered in the capture phase so OrbitControls never sees the press that starts a joint drag.
+      event.stopImmediatePropagation();
+      if (controls) {
+        controls.enabled = false;
+      }
+      element.setPointerCapture(event.pointerId);
+      element.style.cursor = 'grabbing';
+
+      if (activeReachRef.current) {
+        onActiveReachChange(activeReachRef.current);
+      } else {
+        onActiveJointChange(picked.target);
+      }
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      if (!activeDragRef.current && !activeReachRef.current) {
+        if (!gl.xr.isPresenting && event.buttons === 0 && measuring) {
+          element.style.cursor = pickSurface(event) ? 'crosshair' : '';
+        } else if (!gl.xr.isPresenting && event.buttons === 0) {
+          const gizmoHit = pickHandle(event);
+          setGizmoHover(pointerProxy, gizmoHit?.hit.object ?? null);
+          element.style.cursor = gizmoHit || pickTarget(event) ? 'grab' : '';
+        }
+        return;
+      }
+
+      castFromPointer(event);
+      raycaster.ray.intersectPlane(dragPlane, pointerProxy.position);
+    };
+
+    const onPointerUp = (event: PointerEvent) => {
+      const clickStart = clickStartRef.current;
+      clickStartRef.current = null;
+      if (clickStart && clickStart.distanceTo(tempPointerPos.set(event.clientX, event.clientY)) < CLICK_SLOP) {
+        onClearSelection();
+      }
+
+      endDrag(event.pointerId);
+    };
+
+    element.addEventListener('pointerdown', onPointerDown, true);
+    element.addEventListener('pointermove', onPointerMove);
+    element.addEventListener('pointerup', onPointerUp);
+    element.addEventListener('pointercancel', onPointerUp);
+    endDragRef.current = endDrag;
+
+    return () => {
+      endDragRef.current = null;
+      element.removeEventListener('pointerdown', onPointerDown, true);
+      element.removeEventListener('pointermove', onPointerMove);
+      element.removeEventListener('pointerup', onPointerUp);
+      element.removeEventListener('pointercancel', onPointerUp);
+      endDrag();
+    };
+  }, [
+    arms,
+    camera,
+    controls,
+    gl,
+    interactionMode,
+    isJointLocked,
+    measuring,
+    onActivateArm,
+    onActiveJointChange,
+    onActiveReachChange,
+    onClearSelection,
+    onMeasurePoint,
+    onRecordHistory,
+    pickableMeshes,
+    pointerProxy,
+  ]);
+
+  useFrame(() => {
+    const activeReach = activeReachRef.current;
+    const reachArm = activeReach ? arms.find((arm) => arm.id === activeReach.armId) : undefined;
+    const activeDrag = activeDragRef.current;
+    const dragArm = activeDrag ? arms.find((arm) => arm.id === activeDrag.armId) : undefined;
+    if (
+      (activeReach && (!reachArm || reachArm.ikJoints.some(isJointLocked))) ||
+      (activeDrag && (!dragArm || isJointLocked(activeDrag.target)))
+    ) {
+      endDragRef.current?.();
+      return;
+    }
+
+    if (activeReach && reachArm?.endEffector) {
+      const { collisionGuard, ikChain, ikJoints, endEffector } = reachArm;
+      guardPose(collisionGuard, ikJoints, () => applyReach(activeReach, ikChain, endEffector));
+    }
+
+    if (activeDrag && dragArm) {
+      guardPose(dragArm.collisionGuard, [activeDrag.target], () => applyJointDrag(activeDrag));
+    }
+  });
+
+  return null;
+}
+
+function ReachIndicator({ reach, effector }: { reach: ActiveReach; effector: THREE.Object3D }) {
+  const markerRef = useRef<THREE.Mesh>(null);
+  const labelRef = useRef<THREE.Group>(null);
+  const elapsedRef = useRef(0);
+  const [errorLabel, setErrorLabel] = useState<string | null>(null);
+  const gapLine = useMemo(
+    () =>
+      new THREE.Line(
+        new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(), new THREE.Vector3()]),
+        new THREE.LineBasicMaterial({ color: '#ffd166', transparent: true, depthWrite: false, depthTest: false }),
+      ),
+    [],
+  );
+
+  useEffect(() => {
+    gapLine.renderOrder = 1000;
+    gapLine.frustumCulled = false;
+
+    return () => {
+      gapLine.geometry.dispose();
+      (gapLine.material as THREE.Material).dispose();
+    };
+  }, [gapLine]);
+
+  useFrame((_, delta) => {
+    const unreachable = reach.error > IK_TOLERANCE;
+    effector.getWorldPosition(worldPosition);
+
+    const positions = gapLine.geometry.attributes.position as THREE.BufferAttribute;
+    positions.setXYZ(0, worldPosition.x, worldPosition.y, worldPosition.z);
+    positions.setXYZ(1, reach.goal.x, reach.goal.y, reach.goal.z);
+    positions.needsUpdate = true;
+    gapLine.visible = unreachable;
+
+    markerRef.current?.position.copy(reach.goal);
+    labelRef.current?.position.copy(reach.goal).add(tempForward.set(0, 0.06, 0));
+
+    elapsedRef.current += delta;
+    if (elapsedRef.current >= 0.1) {
+      elapsedRef.current = 0;
+      setErrorLabel(unreachable ? `${(reach.error * 100).toFixed(1)} cm short` : null);
+    }
+  });
+
+  return (
+    <>
+      <mesh ref={markerRef} renderOrder={1000}>
+        <sphereGeometry args={[0.015, 16, 12]} />
+        <meshBasicMaterial
+          color={errorLabel ? '#ffd166' : '#6bff9c'}
+          transparent
+          opacity={0.9}
+          depthWrite={false}
+          depthTest={false}
+        />
+      </mesh>
+      <primitive object={gapLine} />
+      <group ref={labelRef}>
+        {errorLabel && (
+          <Billboard>
+            <Text
+              color="#ffd166"
+              fontSize={0.035}
+              anchorX="center"
+              anchorY="bottom"
+              renderOrder={1000}
+              material-depthTest={false}
+              material-depthWrite={false}
+            >
+              {errorLabel}
+            </Text>
+          </Billboard>
+        )}
+      </group>
+    </>
+  );
+}
+
+// Moves joints with velocity or acceleration limits toward where the last drag sent them, one frame at a time.
+function MotionLimiter({
+  joints,
+  jointConstraints,
+  collisionGuard,
+}: {
+  joints: THREE.Object3D[];
+  jointConstraints: Record<string, JointConstraint>;
+  collisionGuard: CollisionWorld | null;
+}) {
+  useFrame((_, delta) => {
+    joints.forEach((joint) => {
+      if (!hasPendingMotion(joint)) {
+        return;
+      }
+
+      const constraint = getJointConstraint(jointConstraints, joint);
+      guardPose(collisionGuard, [joint], () => stepJointMotion(joint, constraint, delta));
+      settleJointMotion(joint);
+    });
+  });
+
+  return null;
+}
+
+// Runs after the motion limiter, so the dependent joints follow wherever the input was driven this frame.
+function LinkageSolver({ linkage, onChange }: { linkage: Linkage | null; onChange: (status: string | null) => void }) {
+  const statusRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    statusRef.current = null;
+    onChange(null);
+  }, [linkage, onChange]);
+
+  useFrame(() => {
+    if (!linkage) {
+      return;
+    }
+
+    const status = stepLinkage(linkage);
+    if (status !== statusRef.current) {
+      statusRef.current = status;
+      onChange(status);
+    }
+  });
+
+  return null;
+}
+
+function KinematicsSampler({
+  rotatableTargets,
+  endEffector,
+  jointConstraints,
+  onSample,
+}: {
+  rotatableTargets: THREE.Object3D[];
+  endEffector: THREE.Object3D | null;
+  jointConstraints: Record<string, JointConstraint>;
+  onSample: (snapshot: KinematicsSnapshot | null) => void;
+}) {
+  const elapsedRef = useRef(0);
+  const lastSampleRef = useRef('');
+
+  useEffect(() => {
+    lastSampleRef.current = '';
+    onSample(null);
+  }, [endEffector, onSample, rotatableTargets]);
+
+  // Sampled at 10 Hz: fast enough to follow a drag, slow enough not to re-render the overlay every frame.
+  useFrame((_, delta) => {
+    elapsedRef.current += delta;
+    if (elapsedRef.current < 0.1 || !endEffector) {
+      return;
+    }
+    elapsedRef.current = 0;
+
+    const joints = rotatableTargets.map((target) => ({
+      name: target.name,
+      constraint: getJointConstraint(jointConstraints, target),
+      rotation: { x: target.rotation.x, y: target.rotation.y, z: target.rotation.z },
+      slide: {
+        x: getSlideOffset(target, 'x'),
+        y: getSlideOffset(target, 'y'),
+        z: getSlideOffset(target, 'z'),
+      },
+      saturated: getSaturatedAxes(target),
+    }));
+
+    endEffector.getWorldQuaternion(tempHeadQuat);
+    const snapshot = {
+      joints,
+      tipName: endEffector.name || null,
+      tipPosition: endEffector.getWorldPosition(new THREE.Vector3()),
+      tipRotation: new THREE.Euler().setFromQuaternion(tempHeadQuat),
+    };
+
+    // Only a change is reported: a new snapshot re-renders the whole app, which it shouldn't do while idle.
+    const summary = JSON.stringify([joints, snapshot.tipName, snapshot.tipPosition, snapshot.tipRotation.toArray()]);
+    if (summary !== lastSampleRef.current) {
+      lastSampleRef.current = summary;
+      onSample(snapshot);
+    }
+  });
+
+  return null;
+}
 
-    controller.getWorldPosition(tempControllerPos);
+const COLLISION_MODE_LABELS: Record<CollisionMode, string> = {
+  block: 'Collisions: block',
+  flag: 'Collisions: flag',
+  off: 'Collisions: off',
+};
+
+const NEXT_COLLISION_MODE: Record<CollisionMode, CollisionMode> = { block: 'flag', flag: 'off', off: 'block' };
+
+// Every arm tints its own links in contact and keeps its own loops closed, but only the active arm's reports are
+// listed in the readouts.
+const ignoreReport = () => {};
+
+// Checks the pose every frame, whatever moved it (drag, IK, playback or an applied pose), and tints the links in contact.
+function CollisionMonitor({
+  world,
+  enabled,
+  onChange,
+}: {
+  world: CollisionWorld | null;
+  enabled: boolean;
+  onChange: (labels: string[]) => void;
+}) {
+  const labelsRef = useRef('');
 
-    const deltaY = tempControllerPos.y - activeDrag.startControllerPos.y;
-    const deltaX = tempControllerPos.x - activeDrag.startControllerPos.x;
+  useEffect(() => {
+    labelsRef.current = '';
+    onChange([]);
 
-    const rotateBoost = 6.5;
-    const xConstraint = activeDrag.constraints.x;
-    const yConstraint = activeDrag.constraints.y;
+    return () => {
+      if (world) {
+        highlightCollisions(world, new Set());
+      }
+    };
+  }, [enabled, onChange, world]);
 
-    if (!xConstraint || xConstraint.enabled) {
-      activeDrag.target.rotation.x = clampIfNeeded(activeDrag.startRotationX + deltaY * rotateBoost, xConstraint);
+  useFrame(() => {
+    if (!world || !enabled) {
+      return;
     }
 
-    if (!yConstraint || yConstraint.enabled) {
-      activeDrag.target.rotation.y = clampIfNeeded(activeDrag.startRotationY + deltaX * rotateBoost, yConstraint);
+    const report = detectCollisions(world);
+    highlightCollisions(world, report.meshes);
+
+    const labels = report.labels.join('\n');
+    if (labels !== labelsRef.current) {
+      labelsRef.current = labels;
+      onChange(report.labels);
     }
   });
 
   return null;
 }
 
+function VRReadoutPanel({
+  armRoot,
+  snapshot,
+  interactionMode,
+  hingeTwist,
+  collisionMode,
+  collisions,
+  linkageStatus,
+  history,
+  onToggleHingeTwist,
+  onCycleCollisionMode,
+  onUndo,
+  onRedo,
+  onHomePose,
+  onRealScale,
+}: {
+  armRoot: THREE.Object3D | null;
+  snapshot: KinematicsSnapshot | null;
+  interactionMode: InteractionMode;
+  hingeTwist: boolean;
+  collisionMode: CollisionMode;
+  collisions: string[];
+  linkageStatus: string | null;
+  history: History;
+  onToggleHingeTwist: () => void;
+  onCycleCollisionMode: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onHomePose: () => void;
+  onRealScale: () => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isPresenting = useXRPresenting();
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [0.55, 0.9, 0]);
+    }
+  });
+
+  if (!isPresenting || !snapshot) {
+    return null;
+  }
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0.28, -0.24, -0.005]}>
+        <planeGeometry args={[0.62, 0.68]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text
+        position={[0, 0, 0]}
+        color="#eaf2ff"
+        fontSize={0.022}
+        maxWidth={0.58}
+        anchorX="left"
+        anchorY="top"
+        lineHeight={1.35}
+      >
+        {[
+          interactionMode === 'joint' ? 'mode: joints (A/X to reach)' : 'mode: reach IK (A/X for joints)',
+          'B to undo, Y to redo; squeeze with both hands to turn and resize',
+          'left stick walks; right stick turns, or push it forward to teleport',
+          '',
+          ...snapshot.joints.map(describeJoint),
+          '',
+          ...describeTip(snapshot),
+          ...collisions.map((label) => `collision: ${label}`),
+          ...(linkageStatus ? [`linkage: ${linkageStatus}`] : []),
+        ].join('\n')}
+      </Text>
+      <XRPanelButton
+        position={[0.13, -0.37, 0]}
+        width={0.28}
+        label={hingeTwist ? 'Hinges: wrist twist' : 'Hinges: hand motion'}
+        active={hingeTwist}
+        onPress={onToggleHingeTwist}
+      />
+      <XRPanelButton
+        position={[0.43, -0.37, 0]}
+        width={0.28}
+        label={COLLISION_MODE_LABELS[collisionMode]}
+        active={collisions.length > 0}
+        onPress={onCycleCollisionMode}
+      />
+      <XRPanelButton
+        position={[0.08, -0.44, 0]}
+        width={0.18}
+        label={`Undo (${history.past.length})`}
+        onPress={onUndo}
+      />
+      <XRPanelButton
+        position={[0.28, -0.44, 0]}
+        width={0.18}
+        label={`Redo (${history.future.length})`}
+        onPress={onRedo}
+      />
+      <XRPanelButton position={[0.48, -0.44, 0]} width={0.18} label="Home pose" onPress={onHomePose} />
+      <XRPanelButton position={[0.28, -0.51, 0]} width={0.58} label="Back to 1:1 scale" onPress={onRealScale} />
+    </group>
+  );
+}
+
+const toolbarButtonStyle: CSSProperties = {
+  border: '1px solid rgba(255,255,255,0.4)',
+  borderRadius: '10px',
+  background: 'rgba(10,20,40,0.7)',
+  color: '#ffffff',
+  padding: '8px 14px',
+  cursor: 'pointer',
+  fontWeight: 600,
+};
+
 function CameraFitter({
   focusCenter,
   focusRadius,
@@ -732,54 +2371,830 @@ function CameraFitter({
 }
 
 export default function App() {
-  const [selectedModelId, setSelectedModelId] = useState<ModelId | null>(null);
-  const selectedModelPath = MODEL_OPTIONS.find((item) => item.id === selectedModelId)?.modelPath ?? null;
+  const [catalog, setCatalog] = useState<ModelOption[] | null>(null);
+  const [catalogError, setCatalogError] = useState<string | null>(null);
+  const [armLoadError, setArmLoadError] = useState<string | null>(null);
+  // Something an arm loaded without, such as meshes a local URDF names but that weren't opened with it.
+  const [armLoadWarning, setArmLoadWarning] = useState<string | null>(null);
+  const [localModels, setLocalModels] = useState<ModelOption[]>([]);
+  const [dropActive, setDropActive] = useState(false);
+  const [arms, setArms] = useState<ArmInstance[]>([]);
+  // The arm the panels, readouts, lessons and shared session work on; picking an arm makes it the active one.
+  const [activeArmId, setActiveArmId] = useState<string | null>(null);
+  const [loadedArms, setLoadedArms] = useState<Record<string, LoadedArm>>({});
+  const models = useMemo(() => [...(catalog ?? []), ...localModels], [catalog, localModels]);
+  const selectedModelId = arms.find((arm) => arm.id === activeArmId)?.modelId ?? null;
+  const selectedModel = models.find((item) => item.id === selectedModelId) ?? null;
   const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-
-  const [activeGizmo, setActiveGizmo] = useState<{ target: THREE.Object3D; mode: GizmoMode } | null>(null);
-  const [armRoot, setArmRoot] = useState<THREE.Object3D | null>(null);
-  const [pickableMeshes, setPickableMeshes] = useState<THREE.Mesh[]>([]);
-  const [rotatableTargets, setRotatableTargets] = useState<THREE.Object3D[]>([]);
+  const localUrlsRef = useRef<string[]>([]);
+
+  // The joint last grabbed keeps its gizmo, so its rings and arrows can be grabbed for single-axis moves.
+  const [gizmoTarget, setGizmoTarget] = useState<THREE.Object3D | null>(null);
+  // Per arm, so duplicates of one model can be given different limits.
+  const [jointEdits, setJointEdits] = useState<Record<string, Record<string, JointConstraint>>>({});
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [posesOpen, setPosesOpen] = useState(false);
+  const [workspaceOpen, setWorkspaceOpen] = useState(false);
+  const [workspaceView, setWorkspaceView] = useState<WorkspaceView>(HIDDEN_WORKSPACE);
+  const [sequences, setSequences] = useState<Record<string, Sequence>>(loadStoredSequences);
+  const [playback, setPlayback] = useState({ playing: false, time: 0, loop: false });
+  const [kinematics, setKinematics] = useState<KinematicsSnapshot | null>(null);
+  const [interactionMode, setInteractionMode] = useState<InteractionMode>('joint');
+  const [hingeTwist, setHingeTwist] = useState(false);
+  const [collisionMode, setCollisionMode] = useState<CollisionMode>('block');
+  const [collisions, setCollisions] = useState<string[]>([]);
+  const [linkageReport, setLinkageReport] = useState<string | null>(null);
+  const [activeReach, setActiveReach] = useState<ActiveReach | null>(null);
+  const [arPlacing, setArPlacing] = useState(false);
   const [focusCenter, setFocusCenter] = useState<THREE.Vector3 | null>(null);
   const [focusRadius, setFocusRadius] = useState<number | null>(null);
-
-  const handleArmReady = (
+  const [sessionOpen, setSessionOpen] = useState(false);
+  const [session, setSession] = useState<SessionConnection | null>(null);
+  const [sessionStatus, setSessionStatus] = useState<SessionStatus | null>(null);
+  const [sessionPeers, setSessionPeers] = useState<SessionPeer[]>([]);
+  const [sessionLocks, setSessionLocks] = useState<Record<string, string>>({});
+  const [rosOpen, setRosOpen] = useState(false);
+  const [rosBridge, setRosBridge] = useState<RosBridgeConnection | null>(null);
+  const [rosStatus, setRosStatus] = useState<RosBridgeStatus | null>(null);
+  const [lessonsOpen, setLessonsOpen] = useState(false);
+  const [lessons, setLessons] = useState<Lesson[]>([]);
+  const [lessonsError, setLessonsError] = useState<string | null>(null);
+  const [lessonId, setLessonId] = useState<string | null>(null);
+  const [lessonStudent, setLessonStudent] = useState('');
+  const [lessonRun, setLessonRun] = useState<LessonRun | null>(null);
+  const [lessonReadings, setLessonReadings] = useState<CheckReading[]>([]);
+  const [lessonReports, setLessonReports] = useState<LessonReport[]>(loadLessonReports);
+  const [measureOpen, setMeasureOpen] = useState(false);
+  const [viewOpen, setViewOpen] = useState(false);
+  // Exploded, x-ray and per-link display, kept for each arm so switching between them doesn't lose it.
+  const [armViews, setArmViews] = useState<Record<string, ArmView>>({});
+  const [measureMode, setMeasureMode] = useState<MeasureMode>('off');
+  const [measureSnap, setMeasureSnap] = useState<MeasureSnap>('surface');
+  const [measure, setMeasure] = useState<MeasureState>(EMPTY_MEASURE);
+  const [measureReadings, setMeasureReadings] = useState<Record<string, string>>({});
+  const [history, setHistory] = useState<History>(EMPTY_HISTORY);
+  const sessionRef = useRef<SessionConnection | null>(null);
+  const rosBridgeRef = useRef<RosBridgeConnection | null>(null);
+  const claimedJointsRef = useRef<string[]>([]);
+  const armsRef = useRef<ArmInstance[]>([]);
+  const activeArmIdRef = useRef<string | null>(null);
+  const interactiveArmsRef = useRef<InteractiveArm[]>([]);
+  // Undo and redo move the joints themselves, so the history is kept here rather than inside a state updater.
+  const historyRef = useRef<History>(EMPTY_HISTORY);
+
+  // Memoized so the interaction effects don't re-subscribe, and cancel an in-flight drag, on every render.
+  const handleArmReady = useCallback((
+    armId: string,
     root: THREE.Object3D,
     meshes: THREE.Mesh[],
     joints: THREE.Object3D[],
     center: THREE.Vector3,
     radius: number,
   ) => {
-    const constrainedJoints = MODEL_JOINT_CONSTRAINTS[selectedModelId ?? 'armB']
-      ? joints.filter((joint) => {
-          const constraint = MODEL_JOINT_CONSTRAINTS[selectedModelId ?? 'armB']?.[joint.name];
-          return Boolean(constraint?.x?.enabled || constraint?.y?.enabled || constraint?.z?.enabled);
-        })
-      : joints;
+    setLoadedArms((current) => ({
+      ...current,
+      [armId]: {
+        root,
+        meshes,
+        joints,
+        endEffector: findEndEffector(joints),
+        collisionWorld: meshes.length > 0 ? createCollisionWorld(root, meshes) : null,
+        links: getArmLinks(meshes, joints),
+      },
+    }));
+
+    // Frame the first arm; later ones are added beside it without moving the camera away from the comparison.
+    if (armsRef.current.length <= 1) {
+      setFocusCenter(center.clone());
+      setFocusRadius(radius);
+    }
+  }, []);
+
+  const interactiveArms = useMemo(
+    () =>
+      arms.flatMap((arm) => {
+        const model = models.find((item) => item.id === arm.modelId);
+        const loaded = loadedArms[arm.id];
+        return model && loaded ? [createInteractiveArm(arm.id, model, loaded, jointEdits[arm.id], collisionMode)] : [];
+      }),
+    [arms, collisionMode, jointEdits, loadedArms, models],
+  );
+
+  // The rest of the app works on the active arm, under the names it had when there was only ever one.
+  const activeArm = interactiveArms.find((arm) => arm.id === activeArmId) ?? null;
+  const armRoot = activeArm?.root ?? null;
+  const armRoots = useMemo(() => interactiveArms.map((arm) => arm.root), [interactiveArms]);
+  // Every arm in the scene for a shared session, including those still loading.
+  const syncedArms = useMemo(
+    () =>
+      arms.map((arm) => {
+        const loaded = interactiveArms.find((candidate) => candidate.id === arm.id);
+        return { id: arm.id, modelId: arm.modelId, root: loaded?.root ?? null, joints: loaded?.joints ?? NO_JOINTS };
+      }),
+    [arms, interactiveArms],
+  );
+  const detectedJoints = activeArm?.joints ?? NO_JOINTS;
+  const endEffector = activeArm?.endEffector ?? null;
+  const armLinks = activeArm?.links ?? NO_LINKS;
+  const armView = (activeArmId && armViews[activeArmId]) || DEFAULT_ARM_VIEW;
+  const jointConstraints = activeArm?.constraints ?? NO_CONSTRAINTS;
+  const rotatableTargets = activeArm?.rotatableTargets ?? NO_JOINTS;
+  const linkedJoints = activeArm?.linkedJoints ?? NO_JOINTS;
+  // The readouts list the joints a linkage moves too, after the ones the user can.
+  const readoutJoints = useMemo(
+    () => (linkedJoints.length > 0 ? [...rotatableTargets, ...linkedJoints] : rotatableTargets),
+    [linkedJoints, rotatableTargets],
+  );
+  const linkageStatus = activeArm?.linkageError ?? linkageReport;
+  // Joint origins the measuring panel offers, down to the tool tip.
+  const measurableJoints = useMemo(
+    () => (endEffector && !detectedJoints.includes(endEffector) ? [...detectedJoints, endEffector] : detectedJoints),
+    [detectedJoints, endEffector],
+  );
+
+  const workspaceDofs = useMemo(
+    () => getWorkspaceDofs(rotatableTargets, (joint) => getJointConstraint(jointConstraints, joint)),
+    [jointConstraints, rotatableTargets],
+  );
+
+  const rosJointAxes = useMemo(
+    () => getRosJointAxes(rotatableTargets, (joint) => getJointConstraint(jointConstraints, joint)),
+    [jointConstraints, rotatableTargets],
+  );
+
+  const collisionGuard = activeArm?.collisionGuard ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadCatalog()
+      .then((models) => {
+        if (cancelled) {
+          return;
+        }
+
+        // URDF robots load through their own loader, and only when picked.
+        models.filter((model) => model.format !== 'urdf').forEach((model) => useGLTF.preload(model.modelPath));
+        setCatalog(models);
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setCatalogError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const localUrls = localUrlsRef.current;
+
+    return () => {
+      localUrls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
+
+  useEffect(() => {
+    armsRef.current = arms;
+    interactiveArmsRef.current = interactiveArms;
+  }, [arms, interactiveArms]);
+
+  // Whatever was going on with the previous active arm (gizmo, reach, playback, a lesson) stops with it.
+  const activateArm = useCallback((armId: string | null) => {
+    if (armId === activeArmIdRef.current) {
+      return;
+    }
+
+    activeArmIdRef.current = armId;
+    setActiveArmId(armId);
+    setGizmoTarget(null);
+    setActiveReach(null);
+    setWorkspaceView(HIDDEN_WORKSPACE);
+    setPlayback((current) => ({ ...current, playing: false, time: 0 }));
+    setLessonRun(null);
+  }, []);
+
+  // Starts the scene over with just this model in it.
+  const showOnlyModel = useCallback(
+    (modelId: string | null) => {
+      const arm = modelId ? createArmInstance(modelId, []) : null;
+      if (arm) {
+        setArmLoadError(null);
+      }
+      setArmLoadWarning(null);
+      setArms(arm ? [arm] : []);
+      setLoadedArms({});
+      setJointEdits({});
+      setFocusCenter(null);
+      setFocusRadius(null);
+      activateArm(arm?.id ?? null);
+    },
+    [activateArm],
+  );
+
+  const armLabels = getArmLabels(arms, (modelId) => models.find((model) => model.id === modelId)?.title ?? modelId);
+
+  const handleAddArm = (modelId: string) => {
+    const arm = createArmInstance(modelId, arms);
+    setArms((current) => [...current, arm]);
+    activateArm(arm.id);
+  };
+
+  // An arm that can't be loaded sends the scene back to the picker, saying why, rather than leaving it blank.
+  const handleArmLoadError = (model: ModelOption, message: string) => {
+    // Forget the failed load, so picking the model again tries it afresh.
+    if (model.format === 'urdf') {
+      useLoader.clear(URDFLoader, model.modelPath);
+    } else {
+      useGLTF.clear(model.modelPath);
+    }
+    setArmLoadError(`${model.title} could not be loaded: ${message}`);
+    showOnlyModel(null);
+  };
+
+  const handleRemoveArm = (armId: string) => {
+    const remaining = arms.filter((arm) => arm.id !== armId);
+    if (remaining.length === 0) {
+      return;
+    }
+
+    setArms(remaining);
+    setLoadedArms(({ [armId]: _removed, ...rest }) => rest);
+    setJointEdits(({ [armId]: _removed, ...rest }) => rest);
+    if (armId === activeArmId) {
+      activateArm(remaining[0].id);
+    }
+  };
+
+  const selectedLessonsUrl = selectedModel?.lessons ?? null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setLessons([]);
+    setLessonsError(null);
+    setLessonId(null);
 
-    setArmRoot(root);
-    setPickableMeshes(meshes);
-    setRotatableTargets(constrainedJoints);
-    setFocusCenter(center.clone());
-    setFocusRadius(radius);
+    if (!selectedLessonsUrl) {
+      return;
+    }
+
+    loadLessons(selectedLessonsUrl)
+      .then((loaded) => {
+        if (!cancelled) {
+          setLessons(loaded);
+          setLessonId(loaded[0]?.id ?? null);
+        }
+      })
+      .catch((error: unknown) => {
+        if (!cancelled) {
+          setLessonsError(error instanceof Error ? error.message : String(error));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedLessonsUrl]);
+
+  // Tells the session which joints this user is holding, by `jointKey`, so nobody else can grab them meanwhile.
+  const claimJoints = useCallback((keys: string[]) => {
+    const connection = sessionRef.current;
+    if (claimedJointsRef.current.length > 0) {
+      connection?.release(claimedJointsRef.current);
+    }
+
+    claimedJointsRef.current = keys;
+    if (keys.length > 0) {
+      connection?.claim(keys);
+    }
+  }, []);
+
+  const isJointLocked = useCallback((joint: THREE.Object3D) => {
+    const arm = findArmOf(joint, interactiveArmsRef.current);
+    return Boolean(arm && isLockedByOther(sessionRef.current, arm.id, joint.name));
+  }, []);
+
+  const isJointHeld = useCallback(
+    (joint: THREE.Object3D) => {
+      const arm = findArmOf(joint, interactiveArmsRef.current);
+      return Boolean(arm && claimedJointsRef.current.includes(jointKey(arm.id, joint.name))) || isJointLocked(joint);
+    },
+    [isJointLocked],
+  );
+
+  const handleActiveJointChange = useCallback((target: THREE.Object3D | null) => {
+    if (!target) {
+      claimJoints([]);
+      return;
+    }
+
+    setGizmoTarget(target);
+    const arm = findArmOf(target, interactiveArmsRef.current);
+    claimJoints(arm ? [jointKey(arm.id, target.name)] : []);
+  }, [claimJoints]);
+
+  const handleClearJointSelection = useCallback(() => {
+    setGizmoTarget(null);
+  }, []);
+
+  const handleActiveReachChange = useCallback((reach: ActiveReach | null) => {
+    setActiveReach(reach);
+    const arm = reach && interactiveArmsRef.current.find((candidate) => candidate.id === reach.armId);
+    claimJoints(arm ? arm.ikJoints.map((joint) => jointKey(arm.id, joint.name)) : []);
+  }, [claimJoints]);
+
+  useEffect(() => {
+    sessionRef.current = session;
+
+    return () => {
+      session?.close();
+    };
+  }, [session]);
+
+  const handleConnectSession = (url: string, name: string) => {
+    // Callbacks from a connection that has since been replaced or closed are ignored.
+    let connection: SessionConnection;
+    try {
+      connection = connectSession(url, name, {
+        onStatus: (status) => sessionRef.current === connection && setSessionStatus(status),
+        onPeers: (peers) => sessionRef.current === connection && setSessionPeers(peers),
+        onLocks: (locks) => sessionRef.current === connection && setSessionLocks(locks),
+      });
+    } catch (error) {
+      setSessionStatus(`error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    sessionRef.current = connection;
+    claimedJointsRef.current = [];
+    setSession(connection);
+    setSessionStatus('connecting');
+  };
+
+  const handleDisconnectSession = () => {
+    sessionRef.current = null;
+    setSession(null);
+    setSessionStatus(null);
+    setSessionPeers([]);
+    setSessionLocks({});
+  };
+
+  useEffect(
+    () => () => {
+      rosBridge?.close();
+    },
+    [rosBridge],
+  );
+
+  const handleConnectRosBridge = (options: RosBridgeOptions) => {
+    let connection: RosBridgeConnection;
+    try {
+      connection = connectRosBridge(options, {
+        onStatus: (status) => rosBridgeRef.current === connection && setRosStatus(status),
+      });
+    } catch (error) {
+      setRosStatus(`error: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+
+    rosBridgeRef.current = connection;
+    setRosBridge(connection);
+    setRosStatus('connecting');
+  };
+
+  const handleDisconnectRosBridge = () => {
+    rosBridgeRef.current = null;
+    setRosBridge(null);
+    setRosStatus(null);
+  };
+
+  // Joining a session that already has arms: this view shows those instead of its own, where it has the models.
+  const handleSceneJoin = useCallback(
+    (shared: SessionArm[]) => {
+      const next: ArmInstance[] = [];
+      shared.forEach(({ armId, modelId }) => {
+        if (catalog?.some((model) => model.id === modelId)) {
+          next.push({ ...createArmInstance(modelId, next), id: armId });
+        }
+      });
+      if (next.length === 0) {
+        return;
+      }
+
+      // An arm this view already had under the same id stays loaded.
+      const kept = (id: string) => next.some((arm) => arm.id === id);
+      setArms(next);
+      setLoadedArms((current) => Object.fromEntries(Object.entries(current).filter(([id]) => kept(id))));
+      setJointEdits((current) => Object.fromEntries(Object.entries(current).filter(([id]) => kept(id))));
+      activateArm(next[0].id);
+    },
+    [activateArm, catalog],
+  );
+
+  // Someone else added an arm, or switched one to another model: it stands here too, under the same id.
+  const handleRemoteArm = useCallback(
+    ({ armId, modelId }: SessionArm) => {
+      if (!catalog?.some((model) => model.id === modelId)) {
+        return false;
+      }
+
+      const existing = armsRef.current.find((arm) => arm.id === armId);
+      if (existing?.modelId === modelId) {
+        // Still loading.
+        return true;
+      }
+
+      setArms((current) => {
+        const standing = current.find((arm) => arm.id === armId);
+        if (standing?.modelId === modelId) {
+          return current;
+        }
+        const arm = { ...createArmInstance(modelId, current), id: armId };
+        return standing
+          ? current.map((other) => (other.id === armId ? { ...arm, position: standing.position } : other))
+          : [...current, arm];
+      });
+      if (existing) {
+        setLoadedArms(({ [armId]: _replaced, ...rest }) => rest);
+        setJointEdits(({ [armId]: _replaced, ...rest }) => rest);
+      }
+      return true;
+    },
+    [catalog],
+  );
+
+  const handleToggleInteractionMode = useCallback(() => {
+    setInteractionMode((mode) => (mode === 'joint' ? 'ik' : 'joint'));
+  }, []);
+
+  const handleToggleHingeTwist = useCallback(() => {
+    setHingeTwist((twist) => !twist);
+  }, []);
+
+  const handleCycleCollisionMode = useCallback(() => {
+    setCollisionMode((mode) => NEXT_COLLISION_MODE[mode]);
+  }, []);
+
+  const updateHistory = useCallback((update: (current: History) => History) => {
+    historyRef.current = update(historyRef.current);
+    setHistory(historyRef.current);
+  }, []);
+
+  const handleRecordHistory = useCallback(
+    (label: string, before: ObjectTransform[]) => {
+      const entry = createHistoryEntry(label, before);
+      if (entry) {
+        updateHistory((current) => pushHistory(current, entry));
+      }
+    },
+    [updateHistory],
+  );
+
+  // A playing sequence would pose the joints straight back, so it stops for undo, redo and going home.
+  const handleUndo = useCallback(() => {
+    setPlayback((current) => ({ ...current, playing: false }));
+    updateHistory(undoHistory);
+  }, [updateHistory]);
+
+  const handleRedo = useCallback(() => {
+    setPlayback((current) => ({ ...current, playing: false }));
+    updateHistory(redoHistory);
+  }, [updateHistory]);
+
+  const handleHomePose = () => {
+    setPlayback((current) => ({ ...current, playing: false }));
+    const before = captureTransforms(detectedJoints);
+    applyHomePose(detectedJoints);
+    handleRecordHistory('Home pose', before);
+  };
+
+  // Puts the active arm back at its real size after a two-handed resize; its base stays where it stands.
+  const handleRealScale = () => {
+    if (!activeArm || activeArm.root.scale.x === activeArm.realScale) {
+      return;
+    }
+
+    const before = captureTransforms([activeArm.root]);
+    activeArm.root.scale.setScalar(activeArm.realScale);
+    handleRecordHistory('Real scale', before);
   };
 
   useEffect(() => {
-    setActiveGizmo(null);
-    setArmRoot(null);
-    setPickableMeshes([]);
-    setRotatableTargets([]);
-    setFocusCenter(null);
-    setFocusRadius(null);
-  }, [selectedModelId]);
-
-  const handleActiveJointChange = (target: THREE.Object3D | null, mode?: GizmoMode) => {
-    if (!target || !mode) {
-      setActiveGizmo(null);
+    updateHistory((current) => keepHistoryOn(current, interactiveArms.map((arm) => arm.root)));
+  }, [interactiveArms, updateHistory]);
+
+  // Ctrl+Z undoes; Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on a Mac). Left alone while typing in a field.
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (!(event.ctrlKey || event.metaKey) || target?.closest('input, textarea, select')) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [handleRedo, handleUndo]);
+
+  // A GLB on its own, or a URDF picked together with the mesh files it references.
+  const handleOpenLocalModel = (files: File[]) => {
+    const urdf = files.find((file) => file.name.toLowerCase().endsWith('.urdf'));
+    const file = urdf ?? files.find((file) => file.name.toLowerCase().endsWith('.glb'));
+    if (!file) {
+      window.alert(`${files[0]?.name ?? 'That'} is not a .glb or .urdf file.`);
       return;
     }
 
-    setActiveGizmo({ target, mode });
+    const url = URL.createObjectURL(file);
+    localUrlsRef.current.push(url);
+
+    const meshFiles = urdf
+      ? Object.fromEntries(
+          files
+            .filter((other) => other !== urdf)
+            .map((other) => {
+              const meshUrl = URL.createObjectURL(other);
+              localUrlsRef.current.push(meshUrl);
+              return [other.webkitRelativePath || other.name, meshUrl];
+            }),
+        )
+      : undefined;
+
+    const model: ModelOption = {
+      id: `local-${Date.now()}`,
+      title: file.name,
+      description: 'Opened from this computer',
+      modelPath: url,
+      format: urdf ? 'urdf' : 'glb',
+      scale: urdf ? 1 : DEFAULT_GLB_SCALE,
+      files: meshFiles,
+      thumbnail: '',
+      joints: NO_CONSTRAINTS,
+    };
+
+    setLocalModels((current) => [...current, model]);
+    showOnlyModel(model.id);
+    setEditorOpen(true);
+  };
+
+  const updateJointEdits = (constraints: Record<string, JointConstraint>) => {
+    if (activeArmId) {
+      setJointEdits((edits) => ({ ...edits, [activeArmId]: constraints }));
+    }
+  };
+
+  const handleConstraintChange = (name: string, constraint: JointConstraint) => {
+    updateJointEdits({ ...jointConstraints, [name]: constraint });
+  };
+
+  const handleExportConstraints = () => {
+    const known = new Set(detectedJoints.map((joint) => joint.name));
+    const exported = Object.fromEntries(
+      Object.entries(jointConstraints).filter(([name, constraint]) => known.has(name) && hasEnabledAxis(constraint)),
+    );
+
+    downloadJson(`${toFileStem(selectedModel?.title ?? 'model')}.joints.json`, serializeJointConstraints(exported));
+  };
+
+  const handleImportConstraints = async (file: File) => {
+    try {
+      const raw = await readJsonFile(file);
+      // Accept either a bare constraint file or a whole manifest entry with a `joints` field.
+      const source = raw && typeof raw === 'object' && 'joints' in raw ? (raw as { joints: unknown }).joints : raw;
+      updateJointEdits(keyByJointName(parseJointConstraints(source), detectedJoints));
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  useEffect(() => {
+    storeSequences(sequences);
+  }, [sequences]);
+
+  const sequence = (selectedModelId && sequences[selectedModelId]) || EMPTY_SEQUENCE;
+  const sequenceDuration = getSequenceDuration(sequence);
+
+  const updateSequence = (update: (current: Sequence) => Sequence) => {
+    if (!selectedModelId) {
+      return;
+    }
+
+    setSequences((current) => ({ ...current, [selectedModelId]: update(current[selectedModelId] ?? EMPTY_SEQUENCE) }));
+  };
+
+  const handleSavePose = (name: string) => {
+    const pose = capturePose(name, rotatableTargets);
+    updateSequence((current) => ({ ...current, poses: [...current.poses, pose] }));
+  };
+
+  const handleApplyPose = (pose: Pose) => {
+    setPlayback((current) => ({ ...current, playing: false }));
+    guardPose(collisionGuard, detectedJoints, () => applyPose(pose, detectedJoints));
+  };
+
+  const handleDeletePose = (poseId: string) => {
+    updateSequence((current) => ({
+      poses: current.poses.filter((pose) => pose.id !== poseId),
+      keyframes: current.keyframes.filter((keyframe) => keyframe.poseId !== poseId),
+    }));
+  };
+
+  // New keyframes go one second after the last one, which the time field can then adjust.
+  const handleAddKeyframe = (poseId: string) => {
+    updateSequence((current) => ({
+      ...current,
+      keyframes: sortKeyframes([
+        ...current.keyframes,
+        { time: current.keyframes.length === 0 ? 0 : getSequenceDuration(current) + 1, poseId },
+      ]),
+    }));
+  };
+
+  const handleKeyframeChange = (index: number, keyframe: Keyframe) => {
+    updateSequence((current) => {
+      const keyframes = sortKeyframes(current.keyframes);
+      keyframes[index] = keyframe;
+      return { ...current, keyframes: sortKeyframes(keyframes) };
+    });
+  };
+
+  const handleDeleteKeyframe = (index: number) => {
+    updateSequence((current) => ({
+      ...current,
+      keyframes: sortKeyframes(current.keyframes).filter((_, keyframeIndex) => keyframeIndex !== index),
+    }));
+  };
+
+  const handleTogglePlay = () => {
+    setPlayback((current) => {
+      if (current.playing) {
+        return { ...current, playing: false };
+      }
+
+      return { ...current, playing: true, time: current.time >= sequenceDuration ? 0 : current.time };
+    });
+  };
+
+  const handleSeek = (time: number) => {
+    guardPose(collisionGuard, detectedJoints, () => applySequenceAt(sequence, time, detectedJoints));
+    setPlayback((current) => ({ ...current, playing: false, time }));
+  };
+
+  const handlePlaybackTime = useCallback((time: number) => {
+    setPlayback((current) => ({ ...current, time }));
+  }, []);
+
+  const handlePlaybackFinished = useCallback(() => {
+    setPlayback((current) => ({ ...current, playing: false }));
+  }, []);
+
+  const handleExportSequence = () => {
+    downloadJson(`${toFileStem(selectedModel?.title ?? 'model')}.poses.json`, sequence);
+  };
+
+  const handleImportSequence = async (file: File) => {
+    try {
+      const imported = parseSequence(await readJsonFile(file));
+      updateSequence(() => imported);
+      setPlayback((current) => ({ ...current, playing: false, time: 0 }));
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  // Measurements on an arm that has left the scene go with it.
+  useEffect(() => {
+    const roots = interactiveArms.map((arm) => arm.root);
+    setMeasure((current) => keepMeasurementsOn(current, roots));
+  }, [interactiveArms]);
+
+  const handleMeasurePoint = useCallback(
+    (hit: THREE.Intersection) => {
+      const arm = findArmOf(hit.object, interactiveArmsRef.current);
+      if (!arm || measureMode === 'off') {
+        return;
+      }
+
+      const frame = getSurfaceFrame(hit);
+      const anchor =
+        measureSnap === 'joint'
+          ? { object: findCarryingJoint(frame, arm.joints, arm.root), local: new THREE.Vector3(), root: arm.root }
+          : createAnchor(frame, hit.point, arm.root);
+      setMeasure((current) => addMeasurePoint(current, anchor, measureMode));
+    },
+    [measureMode, measureSnap],
+  );
+
+  const handleMeasureModeChange = useCallback((mode: MeasureMode) => {
+    setMeasureMode(mode);
+    setMeasure((current) => ({ ...current, pending: [] }));
+  }, []);
+
+  const handleMeasureJoints = (a: THREE.Object3D, b: THREE.Object3D) => {
+    if (armRoot) {
+      setMeasure((current) => measureJoints(current, [[a, b]], armRoot));
+    }
+  };
+
+  const handleMeasureLinks = () => {
+    if (armRoot) {
+      setMeasure((current) => measureJoints(current, getLinkPairs(measurableJoints, armRoot), armRoot));
+    }
+  };
+
+  const handleUndoMeasure = useCallback(() => {
+    setMeasure(undoMeasurePoint);
+  }, []);
+
+  const handleClearMeasure = useCallback(() => {
+    setMeasure(EMPTY_MEASURE);
+  }, []);
+
+  const handleArmViewChange = useCallback(
+    (view: ArmView) => {
+      if (activeArmId) {
+        setArmViews((current) => ({ ...current, [activeArmId]: view }));
+      }
+    },
+    [activeArmId],
+  );
+
+  useEffect(() => {
+    storeLessonReports(lessonReports);
+  }, [lessonReports]);
+
+  // A finished run is recorded as soon as its last step is passed or skipped.
+  useEffect(() => {
+    if (lessonRun && lessonRun.finishedAt !== null) {
+      setLessonReports((current) => [...current, getLessonReport(lessonRun)]);
+    }
+  }, [lessonRun]);
+
+  const handleStartLesson = () => {
+    const lesson = lessons.find((item) => item.id === lessonId);
+    if (lesson && selectedModel) {
+      setLessonRun(startLessonRun(lesson, selectedModel.id, lessonStudent.trim()));
+    }
+  };
+
+  const handleStopLesson = () => {
+    // Stopping part way still records the steps done so far; a finished run was recorded already.
+    if (lessonRun && lessonRun.finishedAt === null && lessonRun.results.length > 0) {
+      setLessonReports((current) => [...current, getLessonReport(lessonRun)]);
+    }
+    setLessonRun(null);
+  };
+
+  const handleLessonStepPassed = useCallback(() => {
+    setLessonRun((run) => run && completeStep(run, 'passed'));
+  }, []);
+
+  const handleSkipLessonStep = useCallback(() => {
+    setLessonRun((run) => run && completeStep(run, 'skipped'));
+  }, []);
+
+  const handleLessonHint = useCallback(() => {
+    setLessonRun((run) => run && revealHint(run));
+  }, []);
+
+  const handleNextLesson = () => {
+    const index = lessons.findIndex((item) => item.id === lessonId);
+    setLessonId(lessons[(index + 1) % lessons.length]?.id ?? null);
+  };
+
+  const handleImportLessons = async (file: File) => {
+    try {
+      const imported = parseLessons(await readJsonFile(file));
+      const ids = new Set(imported.map((lesson) => lesson.id));
+      setLessons((current) => [...current.filter((lesson) => !ids.has(lesson.id)), ...imported]);
+      setLessonId(imported[0]?.id ?? null);
+      setLessonsError(null);
+    } catch (error) {
+      window.alert(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const handleExportLessonReports = () => {
+    downloadJson(`lesson-results-${new Date().toISOString().slice(0, 10)}.json`, lessonReports);
+  };
+
+  const handleClearLessonReports = () => {
+    if (window.confirm('Clear all recorded lesson results? Export them first to keep them.')) {
+      setLessonReports([]);
+    }
   };
 
   const handleBack = async () => {
@@ -792,10 +3207,10 @@ export default function App() {
       }
     }
 
-    setSelectedModelId(null);
+    showOnlyModel(null);
   };
 
-  if (!selectedModelPath) {
+  if (arms.length === 0) {
     return (
       <div
         style={{
@@ -809,15 +3224,34 @@ export default function App() {
           color: '#eaf2ff',
           fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif",
           padding: '24px',
+          boxSizing: 'border-box',
+          outline: dropActive ? '3px dashed rgba(255,255,255,0.6)' : 'none',
+          outlineOffset: '-12px',
+        }}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDropActive(true);
+        }}
+        onDragLeave={() => setDropActive(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setDropActive(false);
+          const files = [...event.dataTransfer.files];
+          if (files.length > 0) {
+            handleOpenLocalModel(files);
+          }
         }}
       >
         <h1 style={{ margin: 0, fontSize: '30px', fontWeight: 700 }}>Select Arm Model</h1>
+        {!catalog && !catalogError && <div style={{ opacity: 0.8 }}>Loading models…</div>}
+        {catalogError && <div style={{ color: '#ff9b9b' }}>{catalogError}</div>}
+        {armLoadError && <div style={{ color: '#ff9b9b' }}>{armLoadError}</div>}
         <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap', justifyContent: 'center' }}>
-          {MODEL_OPTIONS.map((option) => (
+          {[...(catalog ?? []), ...localModels].map((option) => (
             <button
               key={option.id}
               type="button"
-              onClick={() => setSelectedModelId(option.id)}
+              onClick={() => showOnlyModel(option.id)}
               style={{
                 width: '180px',
                 border: '1px solid rgba(255,255,255,0.3)',
@@ -828,15 +3262,56 @@ export default function App() {
                 color: '#ffffff',
               }}
             >
-              <img
-                src={option.image}
-                alt={option.id}
-                style={{ width: '100%', height: '160px', objectFit: 'cover', borderRadius: '8px', display: 'block' }}
-              />
-              <div style={{ marginTop: '10px', fontSize: '16px', fontWeight: 600 }}>{option.name}</div>
+              {option.thumbnail ? (
+                <img
+                  src={option.thumbnail}
+                  alt={option.title}
+                  style={{ width: '100%', height: '160px', objectFit: 'cover', borderRadius: '8px', display: 'block' }}
+                />
+              ) : (
+                <div
+                  style={{
+                    height: '160px',
+                    borderRadius: '8px',
+                    background: 'rgba(255,255,255,0.06)',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    fontSize: '28px',
+                    opacity: 0.7,
+                  }}
+                >
+                  {option.format === 'urdf' ? 'URDF' : 'GLB'}
+                </div>
+              )}
+              <div style={{ marginTop: '10px', fontSize: '16px', fontWeight: 600 }}>{option.title}</div>
+              {option.description && (
+                <div style={{ marginTop: '6px', fontSize: '12px', lineHeight: 1.4, opacity: 0.8 }}>
+                  {option.description}
+                </div>
+              )}
             </button>
           ))}
         </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px', opacity: 0.9 }}>
+          <label style={{ ...toolbarButtonStyle, background: 'rgba(255,255,255,0.08)' }}>
+            Open your own .glb or .urdf
+            <input
+              type="file"
+              accept=".glb,model/gltf-binary,.urdf,.stl,.obj,.dae"
+              multiple
+              style={{ display: 'none' }}
+              onChange={(event) => {
+                const files = [...(event.target.files ?? [])];
+                if (files.length > 0) {
+                  handleOpenLocalModel(files);
+                }
+                event.target.value = '';
+              }}
+            />
+          </label>
+          <span style={{ fontSize: '13px' }}>or drop one anywhere on this page (a URDF together with its meshes)</span>
+        </div>
       </div>
     );
   }
@@ -844,25 +3319,310 @@ export default function App() {
   return (
     <div style={{ position: 'relative', width: '100%', height: '100vh' }}
     >
-      <button
-        type="button"
-        onClick={handleBack}
+      <div style={{ position: 'absolute', top: '16px', left: '16px', zIndex: 10, display: 'flex', gap: '8px' }}>
+        <button type="button" onClick={handleBack} style={toolbarButtonStyle}>
+          Back
+        </button>
+        <button
+          type="button"
+          onClick={handleToggleInteractionMode}
+          title="Switch between dragging single joints and dragging the tool tip (A/X in VR)"
+          style={toolbarButtonStyle}
+        >
+          {interactionMode === 'joint' ? 'Mode: Joints' : 'Mode: Reach (IK)'}
+        </button>
+        <button
+          type="button"
+          onClick={handleToggleHingeTwist}
+          title="In VR, turn single-axis joints by rolling the controller instead of moving it"
+          style={toolbarButtonStyle}
+        >
+          {hingeTwist ? 'Hinges: wrist twist' : 'Hinges: hand motion'}
+        </button>
+        <button
+          type="button"
+          onClick={handleCycleCollisionMode}
+          title="Block drags and reaches that would push a link into another link or the floor, only flag them, or skip the check"
+          style={toolbarButtonStyle}
+        >
+          {COLLISION_MODE_LABELS[collisionMode]}
+        </button>
+        <button
+          type="button"
+          onClick={handleUndo}
+          disabled={history.past.length === 0}
+          title={
+            history.past.length > 0 ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'
+          }
+          style={{ ...toolbarButtonStyle, opacity: history.past.length > 0 ? 1 : 0.5 }}
+        >
+          Undo
+        </button>
+        <button
+          type="button"
+          onClick={handleRedo}
+          disabled={history.future.length === 0}
+          title={
+            history.future.length > 0
+              ? `Redo ${history.future[history.future.length - 1].label} (Ctrl+Shift+Z)`
+              : 'Nothing to redo'
+          }
+          style={{ ...toolbarButtonStyle, opacity: history.future.length > 0 ? 1 : 0.5 }}
+        >
+          Redo
+        </button>
+        <button
+          type="button"
+          onClick={handleHomePose}
+          title="Put the active arm's joints back the way the model loaded"
+          style={toolbarButtonStyle}
+        >
+          Home pose
+        </button>
+        <button type="button" onClick={() => setEditorOpen((open) => !open)} style={toolbarButtonStyle}>
+          {editorOpen ? 'Close editor' : 'Edit joints'}
+        </button>
+        <button type="button" onClick={() => setPosesOpen((open) => !open)} style={toolbarButtonStyle}>
+          {posesOpen ? 'Close poses' : 'Poses'}
+        </button>
+        <button type="button" onClick={() => setWorkspaceOpen((open) => !open)} style={toolbarButtonStyle}>
+          {workspaceOpen ? 'Close workspace' : 'Workspace'}
+        </button>
+        <button type="button" onClick={() => setSessionOpen((open) => !open)} style={toolbarButtonStyle}>
+          {sessionStatus === 'open' ? `Session (${sessionPeers.length})` : 'Session'}
+        </button>
+        <button type="button" onClick={() => setRosOpen((open) => !open)} style={toolbarButtonStyle}>
+          {rosStatus === 'open' ? 'ROS: connected' : 'ROS'}
+        </button>
+        <button type="button" onClick={() => setLessonsOpen((open) => !open)} style={toolbarButtonStyle}>
+          {lessonRun && lessonRun.finishedAt === null
+            ? `Lesson: step ${lessonRun.stepIndex + 1}/${lessonRun.lesson.steps.length}`
+            : 'Lessons'}
+        </button>
+        <button type="button" onClick={() => setMeasureOpen((open) => !open)} style={toolbarButtonStyle}>
+          {measureOpen ? 'Close measure' : 'Measure'}
+        </button>
+        <button type="button" onClick={() => setViewOpen((open) => !open)} style={toolbarButtonStyle}>
+          {viewOpen ? 'Close view' : 'View'}
+        </button>
+      </div>
+
+      <div
         style={{
           position: 'absolute',
-          top: '16px',
+          top: '64px',
           left: '16px',
           zIndex: 10,
-          border: '1px solid rgba(255,255,255,0.4)',
-          borderRadius: '10px',
-          background: 'rgba(10,20,40,0.7)',
-          color: '#ffffff',
-          padding: '8px 14px',
-          cursor: 'pointer',
-          fontWeight: 600,
+          display: 'flex',
+          gap: '12px',
+          alignItems: 'flex-start',
         }}
       >
-        Back
-      </button>
+        {armLoadWarning && (
+          <div style={{ ...panelStyle, width: '280px' }}>
+            <div style={{ color: '#ff8a8a', marginBottom: '8px' }}>{armLoadWarning}</div>
+            <button type="button" onClick={() => setArmLoadWarning(null)} style={buttonStyle}>
+              Dismiss
+            </button>
+          </div>
+        )}
+        {editorOpen && (
+          <JointEditor
+            joints={detectedJoints}
+            constraints={jointConstraints}
+            onChange={handleConstraintChange}
+            onExport={handleExportConstraints}
+            onImport={handleImportConstraints}
+          />
+        )}
+        {posesOpen && (
+          <PosePanel
+            sequence={sequence}
+            playing={playback.playing}
+            time={playback.time}
+            loop={playback.loop}
+            onSavePose={handleSavePose}
+            onApplyPose={handleApplyPose}
+            onDeletePose={handleDeletePose}
+            onAddKeyframe={handleAddKeyframe}
+            onKeyframeChange={handleKeyframeChange}
+            onDeleteKeyframe={handleDeleteKeyframe}
+            onTogglePlay={handleTogglePlay}
+            onSeek={handleSeek}
+            onLoopChange={(loop) => setPlayback((current) => ({ ...current, loop }))}
+            onExport={handleExportSequence}
+            onImport={handleImportSequence}
+          />
+        )}
+        {sessionOpen && (
+          <SessionPanel
+            status={sessionStatus}
+            selfId={session?.selfId ?? null}
+            peers={sessionPeers}
+            locks={sessionLocks}
+            onConnect={handleConnectSession}
+            onDisconnect={handleDisconnectSession}
+          />
+        )}
+        {rosOpen && (
+          <RosBridgePanel
+            status={rosStatus}
+            axes={rosJointAxes}
+            onConnect={handleConnectRosBridge}
+            onDisconnect={handleDisconnectRosBridge}
+          />
+        )}
+        {workspaceOpen && <WorkspacePanel joints={rotatableTargets} view={workspaceView} onChange={setWorkspaceView} />}
+        {lessonsOpen && (
+          <LessonPanel
+            lessons={lessons}
+            lessonsError={lessonsError}
+            lessonId={lessonId}
+            student={lessonStudent}
+            run={lessonRun}
+            readings={lessonReadings}
+            reports={lessonReports}
+            onLessonChange={setLessonId}
+            onStudentChange={setLessonStudent}
+            onStart={handleStartLesson}
+            onStop={handleStopLesson}
+            onHint={handleLessonHint}
+            onSkip={handleSkipLessonStep}
+            onImport={handleImportLessons}
+            onExportReports={handleExportLessonReports}
+            onClearReports={handleClearLessonReports}
+          />
+        )}
+        {measureOpen && (
+          <MeasurePanel
+            mode={measureMode}
+            snap={measureSnap}
+            joints={measurableJoints}
+            measure={measure}
+            readings={measureReadings}
+            onModeChange={handleMeasureModeChange}
+            onSnapChange={setMeasureSnap}
+            onMeasureJoints={handleMeasureJoints}
+            onMeasureLinks={handleMeasureLinks}
+            onDelete={(id) =>
+              setMeasure((current) => ({
+                ...current,
+                measurements: current.measurements.filter((measurement) => measurement.id !== id),
+              }))
+            }
+            onClear={handleClearMeasure}
+          />
+        )}
+        {viewOpen && <ViewPanel links={armLinks} view={armView} onChange={handleArmViewChange} />}
+      </div>
+
+      <div
+        style={{
+          position: 'absolute',
+          bottom: '16px',
+          left: '16px',
+          zIndex: 10,
+          display: 'flex',
+          gap: '8px',
+          alignItems: 'center',
+          flexWrap: 'wrap',
+        }}
+      >
+        {arms.map((arm) => (
+          <div key={arm.id} style={{ display: 'flex' }}>
+            <button
+              type="button"
+              onClick={() => activateArm(arm.id)}
+              title="Work on this arm: the panels, readouts and lessons follow the active arm"
+              style={{
+                ...toolbarButtonStyle,
+                ...(arm.id === activeArmId && { background: 'rgba(40,90,160,0.9)', borderColor: '#6bb7ff' }),
+                ...(arms.length > 1 && { borderRadius: '10px 0 0 10px' }),
+              }}
+            >
+              {armLabels[arm.id]}
+            </button>
+            {arms.length > 1 && (
+              <button
+                type="button"
+                onClick={() => handleRemoveArm(arm.id)}
+                title="Take this arm out of the scene"
+                style={{ ...toolbarButtonStyle, borderLeft: 'none', borderRadius: '0 10px 10px 0', padding: '8px 10px' }}
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        ))}
+        <select
+          value=""
+          onChange={(event) => event.target.value && handleAddArm(event.target.value)}
+          title="Stand another arm beside these, to compare designs or try two poses of the same one"
+          style={toolbarButtonStyle}
+        >
+          <option value="">Add arm…</option>
+          {models.map((model) => (
+            <option key={model.id} value={model.id} style={{ color: '#000000' }}>
+              {model.title}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={handleRealScale}
+          title="Put the active arm back at its real size after resizing it with both hands in VR"
+          style={toolbarButtonStyle}
+        >
+          1:1 scale
+        </button>
+      </div>
+
+      {kinematics && (
+        <div
+          style={{
+            position: 'absolute',
+            top: '16px',
+            right: '16px',
+            zIndex: 10,
+            minWidth: '260px',
+            border: '1px solid rgba(255,255,255,0.4)',
+            borderRadius: '10px',
+            background: 'rgba(10,20,40,0.7)',
+            color: '#eaf2ff',
+            padding: '10px 14px',
+            fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+            fontSize: '12px',
+            lineHeight: 1.5,
+            whiteSpace: 'pre',
+            pointerEvents: 'none',
+          }}
+        >
+          <div style={{ fontWeight: 700, marginBottom: '4px' }}>Joints</div>
+          {kinematics.joints.map((reading) => (
+            <div key={reading.name}>{describeJoint(reading)}</div>
+          ))}
+          <div style={{ fontWeight: 700, margin: '8px 0 4px' }}>End effector</div>
+          {describeTip(kinematics).map((line) => (
+            <div key={line}>{line}</div>
+          ))}
+          {collisions.length > 0 && (
+            <>
+              <div style={{ fontWeight: 700, margin: '8px 0 4px', color: '#ff8a8a' }}>Collisions</div>
+              {collisions.map((label) => (
+                <div key={label} style={{ color: '#ff8a8a' }}>
+                  {label}
+                </div>
+              ))}
+            </>
+          )}
+          {linkageStatus && (
+            <>
+              <div style={{ fontWeight: 700, margin: '8px 0 4px', color: '#ff8a8a' }}>Linkage</div>
+              <div style={{ color: '#ff8a8a' }}>{linkageStatus}</div>
+            </>
+          )}
+        </div>
+      )}
 
       <Canvas
         camera={{ position: [0, 1.6, 2.2], fov: 50 }}
@@ -877,14 +3637,200 @@ export default function App() {
 
         <Suspense fallback={null}>
           <SkyboxEnvironment />
-          <ArmModel key={selectedModelPath} modelPath={selectedModelPath} onReady={handleArmReady} />
-          {activeGizmo && <JointGizmo target={activeGizmo.target} mode={activeGizmo.mode} />}
+          {arms.map((arm) => {
+            const model = models.find((item) => item.id === arm.modelId);
+            // Each arm suspends on its own, so adding one doesn't blank the ones already standing.
+            return (
+              model && (
+                <ArmErrorBoundary key={arm.id} onError={(message) => handleArmLoadError(model, message)}>
+                  <Suspense fallback={null}>
+                    <ArmModel
+                      armId={arm.id}
+                      model={model}
+                      position={arm.position}
+                      onReady={handleArmReady}
+                      onLoadWarning={setArmLoadWarning}
+                    />
+                  </Suspense>
+                </ArmErrorBoundary>
+              )
+            );
+          })}
+          {gizmoTarget && interactionMode === 'joint' && (
+            <JointGizmo target={gizmoTarget} constraint={getJointConstraint(jointConstraints, gizmoTarget)} />
+          )}
+          {activeReach && endEffector && <ReachIndicator reach={activeReach} effector={endEffector} />}
           <XRInteraction
+            arms={interactiveArms}
+            activeArmId={activeArmId}
+            interactionMode={interactionMode}
+            hingeTwist={hingeTwist}
+            isJointLocked={isJointLocked}
+            placementPending={arPlacing}
+            measuring={measureMode !== 'off'}
+            onActivateArm={activateArm}
+            onActiveJointChange={handleActiveJointChange}
+            onActiveReachChange={handleActiveReachChange}
+            onClearSelection={handleClearJointSelection}
+            onMeasurePoint={handleMeasurePoint}
+            onRecordHistory={handleRecordHistory}
+            onRedo={handleRedo}
+            onToggleInteractionMode={handleToggleInteractionMode}
+            onUndo={handleUndo}
+          />
+          <XRLocomotion />
+          <ARPlacement
             armRoot={armRoot}
-            pickableMeshes={pickableMeshes}
-            rotatableTargets={rotatableTargets}
-            selectedModelId={selectedModelId!}
+            armRoots={armRoots}
+            scale={selectedModel?.scale ?? DEFAULT_GLB_SCALE}
+            placing={arPlacing}
+            onPlacingChange={setArPlacing}
+          />
+          <PointerInteraction
+            arms={interactiveArms}
+            interactionMode={interactionMode}
+            isJointLocked={isJointLocked}
+            measuring={measureMode !== 'off'}
+            onActivateArm={activateArm}
             onActiveJointChange={handleActiveJointChange}
+            onActiveReachChange={handleActiveReachChange}
+            onClearSelection={handleClearJointSelection}
+            onMeasurePoint={handleMeasurePoint}
+            onRecordHistory={handleRecordHistory}
+          />
+          {interactiveArms.map((arm) => (
+            <MotionLimiter
+              key={arm.id}
+              joints={arm.rotatableTargets}
+              jointConstraints={arm.constraints}
+              collisionGuard={arm.collisionGuard}
+            />
+          ))}
+          {interactiveArms.map((arm) => (
+            <LinkageSolver
+              key={arm.id}
+              linkage={arm.linkage}
+              onChange={arm.id === activeArmId ? setLinkageReport : ignoreReport}
+            />
+          ))}
+          {interactiveArms.map((arm) => (
+            <ArmViewRig
+              key={arm.id}
+              armRoot={arm.root}
+              links={arm.links}
+              joints={arm.joints}
+              endEffector={arm.endEffector}
+              view={armViews[arm.id] ?? DEFAULT_ARM_VIEW}
+            />
+          ))}
+          <KinematicsSampler
+            rotatableTargets={readoutJoints}
+            endEffector={endEffector}
+            jointConstraints={jointConstraints}
+            onSample={setKinematics}
+          />
+          <VRReadoutPanel
+            armRoot={armRoot}
+            snapshot={kinematics}
+            interactionMode={interactionMode}
+            hingeTwist={hingeTwist}
+            collisionMode={collisionMode}
+            collisions={collisions}
+            linkageStatus={linkageStatus}
+            history={history}
+            onToggleHingeTwist={handleToggleHingeTwist}
+            onCycleCollisionMode={handleCycleCollisionMode}
+            onUndo={handleUndo}
+            onRedo={handleRedo}
+            onHomePose={handleHomePose}
+            onRealScale={handleRealScale}
+          />
+          <TimelinePlayer
+            sequence={sequence}
+            joints={detectedJoints}
+            collisionGuard={collisionGuard}
+            playing={playback.playing}
+            time={playback.time}
+            loop={playback.loop}
+            onTimeChange={handlePlaybackTime}
+            onFinished={handlePlaybackFinished}
+          />
+          <WorkspaceCloud
+            armRoot={armRoot}
+            endEffector={endEffector}
+            joints={rotatableTargets}
+            dofs={workspaceDofs}
+            view={workspaceView}
+          />
+          <VRWorkspaceControls
+            armRoot={armRoot}
+            joints={rotatableTargets}
+            view={workspaceView}
+            onChange={setWorkspaceView}
+          />
+          <SessionSync
+            connection={session}
+            arms={syncedArms}
+            peers={sessionPeers}
+            locks={sessionLocks}
+            onSceneJoin={handleSceneJoin}
+            onRemoteArm={handleRemoteArm}
+            onRemoteRemove={handleRemoveArm}
+          />
+          <RosBridgeSync
+            connection={rosBridge}
+            axes={rosJointAxes}
+            jointConstraints={jointConstraints}
+            collisionGuard={collisionGuard}
+            isJointHeld={isJointHeld}
+          />
+          {interactiveArms.map((arm) => (
+            <CollisionMonitor
+              key={arm.id}
+              world={arm.collisionWorld}
+              enabled={collisionMode !== 'off'}
+              onChange={arm.id === activeArmId ? setCollisions : ignoreReport}
+            />
+          ))}
+          <VRTimelineControls
+            armRoot={armRoot}
+            playing={playback.playing}
+            time={playback.time}
+            duration={sequenceDuration}
+            onTogglePlay={handleTogglePlay}
+            onSeek={handleSeek}
+          />
+          <LessonRunner
+            run={lessonRun}
+            armRoot={armRoot}
+            joints={detectedJoints}
+            endEffector={endEffector}
+            readings={lessonReadings}
+            onReadings={setLessonReadings}
+            onStepPassed={handleLessonStepPassed}
+          />
+          <VRLessonPanel
+            armRoot={armRoot}
+            lesson={lessons.find((item) => item.id === lessonId) ?? null}
+            run={lessonRun}
+            readings={lessonReadings}
+            onStart={handleStartLesson}
+            onNextLesson={handleNextLesson}
+            onHint={handleLessonHint}
+            onSkip={handleSkipLessonStep}
+            onStop={handleStopLesson}
+          />
+          <MeasureOverlay measure={measure} readings={measureReadings} onReadings={setMeasureReadings} />
+          <VRViewControls armRoot={armRoot} links={armLinks} view={armView} onChange={handleArmViewChange} />
+          <VRMeasureControls
+            armRoot={armRoot}
+            mode={measureMode}
+            snap={measureSnap}
+            measure={measure}
+            onModeChange={handleMeasureModeChange}
+            onSnapChange={setMeasureSnap}
+            onUndo={handleUndoMeasure}
+            onClear={handleClearMeasure}
           />
           <CameraFitter focusCenter={focusCenter} focusRadius={focusRadius} />
         </Suspense>
@@ -897,7 +3843,3 @@ export default function App() {
     </div>
   );
 }
-
-useGLTF.preload('/models/armA.glb');
-useGLTF.preload('/models/armB.glb');
-useGLTF.preload('/models/armC.glb');
@@ -0,0 +1,23 @@
+import { Component, type ReactNode } from 'react';
+
+type ArmErrorBoundaryProps = {
+  children: ReactNode;
+  onError: (message: string) => void;
+};
+
+// Catches an arm whose files fail to load or parse, which would otherwise take the whole canvas down with it.
+export default class ArmErrorBoundary extends Component<ArmErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: unknown) {
+    this.props.onError(error instanceof Error ? error.message : String(error));
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
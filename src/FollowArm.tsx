@@ -0,0 +1,17 @@
+import { type ReactNode, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+
+// Keeps its children in the arm's own frame (position, turn and model scale) wherever the arm is placed.
+export default function FollowArm({ armRoot, children }: { armRoot: THREE.Object3D; children: ReactNode }) {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (groupRef.current) {
+      armRoot.updateWorldMatrix(true, false);
+      armRoot.matrixWorld.decompose(groupRef.current.position, groupRef.current.quaternion, groupRef.current.scale);
+    }
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import { AXES, type Axis, type AxisConstraint, type JointConstraint } from './joints.ts';
+import { buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+type JointEditorProps = {
+  joints: THREE.Object3D[];
+  constraints: Record<string, JointConstraint>;
+  onChange: (name: string, constraint: JointConstraint) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const numberFieldStyle = { ...fieldStyle, width: '58px', padding: '2px 4px' };
+
+// Keeps the typed text locally so half-typed values such as "-" survive until the field is committed.
+function LimitField({
+  value,
+  disabled,
+  onCommit,
+}: {
+  value: number | undefined;
+  disabled: boolean;
+  onCommit: (value: number | undefined) => void;
+}) {
+  const [text, setText] = useState(value === undefined ? '' : String(value));
+
+  useEffect(() => {
+    setText(value === undefined ? '' : String(value));
+  }, [value]);
+
+  const commit = () => {
+    const trimmed = text.trim();
+    if (trimmed === '') {
+      onCommit(undefined);
+      return;
+    }
+
+    const parsed = Number(trimmed);
+    if (Number.isFinite(parsed)) {
+      onCommit(parsed);
+    } else {
+      setText(value === undefined ? '' : String(value));
+    }
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      placeholder="free"
+      value={text}
+      disabled={disabled}
+      onChange={(event) => setText(event.target.value)}
+      onBlur={commit}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          commit();
+        }
+      }}
+      style={{ ...numberFieldStyle, opacity: disabled ? 0.4 : 1 }}
+    />
+  );
+}
+
+function AxisRow({
+  label,
+  constraint,
+  toDisplay,
+  fromDisplay,
+  onChange,
+}: {
+  label: string;
+  constraint: AxisConstraint | undefined;
+  toDisplay: (value: number) => number;
+  fromDisplay: (value: number) => number;
+  onChange: (constraint: AxisConstraint | undefined) => void;
+}) {
+  const enabled = Boolean(constraint?.enabled);
+  const display = (value?: number) => (value === undefined ? undefined : Number(toDisplay(value).toFixed(2)));
+  // Rates only make sense as positive numbers; anything else clears the limit.
+  const fromRate = (value: number | undefined) => (value === undefined || value <= 0 ? undefined : fromDisplay(value));
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      <label style={{ width: '44px', display: 'flex', alignItems: 'center', gap: '4px' }}>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(event) => onChange(event.target.checked ? { ...constraint, enabled: true } : undefined)}
+        />
+        {label}
+      </label>
+      <LimitField
+        value={display(constraint?.min)}
+        disabled={!enabled}
+        onCommit={(value) => onChange({ enabled, ...constraint, min: value === undefined ? undefined : fromDisplay(value) })}
+      />
+      <LimitField
+        value={display(constraint?.max)}
+        disabled={!enabled}
+        onCommit={(value) => onChange({ enabled, ...constraint, max: value === undefined ? undefined : fromDisplay(value) })}
+      />
+      <LimitField
+        value={display(constraint?.maxVelocity)}
+        disabled={!enabled}
+        onCommit={(value) => onChange({ enabled, ...constraint, maxVelocity: fromRate(value) })}
+      />
+      <LimitField
+        value={display(constraint?.maxAcceleration)}
+        disabled={!enabled}
+        onCommit={(value) => onChange({ enabled, ...constraint, maxAcceleration: fromRate(value) })}
+      />
+    </div>
+  );
+}
+
+const identity = (value: number) => value;
+
+/**
+ * Lists every joint the model loader detected and lets the user enable rotation (degrees) and slide (model units)
+ * axes with optional limits, top speed (per second) and acceleration (per second squared). The result exports in
+ * the same format as a manifest's `joints` entry.
+ */
+export default function JointEditor({ joints, constraints, onChange, onExport, onImport }: JointEditorProps) {
+  const setRotation = (joint: THREE.Object3D, axis: Axis, axisConstraint: AxisConstraint | undefined) => {
+    const current = constraints[joint.name] ?? {};
+    onChange(joint.name, { ...current, [axis]: axisConstraint });
+  };
+
+  const setSlide = (joint: THREE.Object3D, axis: Axis, axisConstraint: AxisConstraint | undefined) => {
+    const current = constraints[joint.name] ?? {};
+    onChange(joint.name, { ...current, translation: { ...current.translation, [axis]: axisConstraint } });
+  };
+
+  return (
+    <div style={{ ...panelStyle, width: '380px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Joint constraints</div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <label style={buttonStyle}>
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  onImport(file);
+                }
+                event.target.value = '';
+              }}
+            />
+          </label>
+          <button type="button" onClick={onExport} style={buttonStyle}>
+            Export
+          </button>
+        </div>
+      </div>
+      <div style={{ opacity: 0.7, marginBottom: '8px' }}>
+        Rotation limits in degrees, slides in model units; vel and acc per second and per second squared.
+      </div>
+      {joints.length === 0 && <div style={{ opacity: 0.7 }}>No joints detected in this model.</div>}
+      {joints.map((joint) => {
+        const constraint = constraints[joint.name] ?? {};
+
+        return (
+          <div key={joint.uuid} style={{ padding: '8px 0', borderTop: '1px solid rgba(255,255,255,0.15)' }}>
+            <div style={{ fontWeight: 600, marginBottom: '4px' }}>{joint.name || '(unnamed)'}</div>
+            <div style={{ display: 'flex', gap: '6px', opacity: 0.6, paddingLeft: '50px' }}>
+              <span style={{ width: '68px' }}>min</span>
+              <span style={{ width: '68px' }}>max</span>
+              <span style={{ width: '68px' }}>vel</span>
+              <span>acc</span>
+            </div>
+            {AXES.map((axis) => (
+              <AxisRow
+                key={`r${axis}`}
+                label={`r${axis}`}
+                constraint={constraint[axis]}
+                toDisplay={THREE.MathUtils.radToDeg}
+                fromDisplay={THREE.MathUtils.degToRad}
+                onChange={(axisConstraint) => setRotation(joint, axis, axisConstraint)}
+              />
+            ))}
+            {AXES.map((axis) => (
+              <AxisRow
+                key={`t${axis}`}
+                label={`t${axis}`}
+                constraint={constraint.translation?.[axis]}
+                toDisplay={identity}
+                fromDisplay={identity}
+                onChange={(axisConstraint) => setSlide(joint, axis, axisConstraint)}
+              />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+import { useEffect, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import FollowArm from './FollowArm.tsx';
+import XRPanelButton from './XRPanelButton.tsx';
+import {
+  evaluateCheck,
+  getCurrentStep,
+  getLessonScore,
+  type CheckReading,
+  type Lesson,
+  type LessonReport,
+  type LessonRun,
+} from './lessons.ts';
+import { placeBesideArm, useXRPresenting } from './xrUi.ts';
+import { buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+// Checks are evaluated at 10 Hz, like the kinematics readout: a step's hold time is counted in these ticks.
+const CHECK_INTERVAL = 0.1;
+const PASS_COLOR = '#6bff9c';
+const PENDING_COLOR = '#ffd86b';
+
+function formatSeconds(seconds: number): string {
+  return seconds < 60 ? `${seconds.toFixed(1)} s` : `${Math.floor(seconds / 60)} min ${Math.round(seconds % 60)} s`;
+}
+
+export default function LessonPanel({
+  lessons,
+  lessonsError,
+  lessonId,
+  student,
+  run,
+  readings,
+  reports,
+  onLessonChange,
+  onStudentChange,
+  onStart,
+  onStop,
+  onHint,
+  onSkip,
+  onImport,
+  onExportReports,
+  onClearReports,
+}: {
+  lessons: Lesson[];
+  lessonsError: string | null;
+  lessonId: string | null;
+  student: string;
+  run: LessonRun | null;
+  readings: CheckReading[];
+  reports: LessonReport[];
+  onLessonChange: (lessonId: string) => void;
+  onStudentChange: (student: string) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onHint: () => void;
+  onSkip: () => void;
+  onImport: (file: File) => void;
+  onExportReports: () => void;
+  onClearReports: () => void;
+}) {
+  const lesson = lessons.find((item) => item.id === lessonId) ?? null;
+  const step = run && getCurrentStep(run);
+
+  return (
+    <div style={{ ...panelStyle, width: '300px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Lessons</div>
+        {!run && (
+          <label style={buttonStyle}>
+            Open lesson
+            <input
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  onImport(file);
+                }
+                event.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+
+      {lessonsError && <div style={{ color: '#ff8a8a', marginBottom: '8px' }}>{lessonsError}</div>}
+
+      {!run && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          {lessons.length === 0 ? (
+            <div style={{ opacity: 0.7 }}>No lessons for this model. Open a lesson file to start one.</div>
+          ) : (
+            <>
+              <select
+                value={lessonId ?? ''}
+                onChange={(event) => onLessonChange(event.target.value)}
+                style={fieldStyle}
+              >
+                {lessons.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.title}
+                  </option>
+                ))}
+              </select>
+              {lesson && (
+                <div style={{ opacity: 0.7 }}>
+                  {lesson.description || `${lesson.steps.length} steps`}
+                </div>
+              )}
+            </>
+          )}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ width: '56px', opacity: 0.8 }}>Student</span>
+            <input
+              type="text"
+              value={student}
+              placeholder="Name"
+              onChange={(event) => onStudentChange(event.target.value)}
+              style={{ ...fieldStyle, flex: 1 }}
+            />
+          </label>
+          <button type="button" disabled={!lesson} onClick={onStart} style={buttonStyle}>
+            Start lesson
+          </button>
+        </div>
+      )}
+
+      {run && step && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          <div style={{ opacity: 0.7 }}>
+            {run.lesson.title} · step {run.stepIndex + 1} of {run.lesson.steps.length}
+          </div>
+          <div style={{ fontWeight: 700 }}>{step.title}</div>
+          {step.instruction && <div>{step.instruction}</div>}
+          {readings.map((reading, index) => (
+            <div key={index} style={{ color: reading.passed ? PASS_COLOR : PENDING_COLOR }}>
+              {reading.passed ? '✓' : '○'} {reading.label}
+            </div>
+          ))}
+          {step.hints.slice(0, run.hintsShown).map((hint, index) => (
+            <div key={index} style={{ fontStyle: 'italic', opacity: 0.85 }}>
+              Hint: {hint}
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button
+              type="button"
+              disabled={run.hintsShown >= step.hints.length}
+              onClick={onHint}
+              style={buttonStyle}
+            >
+              Hint ({step.hints.length - run.hintsShown})
+            </button>
+            <button type="button" onClick={onSkip} style={buttonStyle}>
+              Skip step
+            </button>
+            <button type="button" onClick={onStop} style={buttonStyle}>
+              Stop
+            </button>
+          </div>
+        </div>
+      )}
+
+      {run && run.finishedAt !== null && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+          <div style={{ fontWeight: 700 }}>
+            {run.lesson.title}: {getLessonScore(run)}% in {formatSeconds((run.finishedAt - run.startedAt) / 1000)}
+          </div>
+          {run.results.map((result) => (
+            <div key={result.stepId} style={{ color: result.status === 'passed' ? PASS_COLOR : '#ff8a8a' }}>
+              {result.title}: {result.status}, {formatSeconds(result.seconds)}
+              {result.hintsUsed > 0 && `, ${result.hintsUsed} hint${result.hintsUsed === 1 ? '' : 's'}`}
+            </div>
+          ))}
+          <button type="button" onClick={onStop} style={{ ...buttonStyle, marginTop: '4px' }}>
+            Done
+          </button>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', margin: '10px 0 4px' }}>
+        <div style={{ fontWeight: 700 }}>Results ({reports.length})</div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button type="button" disabled={reports.length === 0} onClick={onExportReports} style={buttonStyle}>
+            Export
+          </button>
+          <button type="button" disabled={reports.length === 0} onClick={onClearReports} style={buttonStyle}>
+            Clear
+          </button>
+        </div>
+      </div>
+      {reports.length === 0 ? (
+        <div style={{ opacity: 0.7 }}>Finished and stopped lessons are kept here until exported.</div>
+      ) : (
+        reports
+          .slice(-8)
+          .reverse()
+          .map((report) => (
+            <div key={`${report.student}-${report.startedAt}`} style={{ opacity: 0.85 }}>
+              {report.student || 'Anonymous'} · {report.lessonTitle} · {report.score}%
+              {report.finishedAt === null && ' (stopped)'}
+            </div>
+          ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Watches the current step of a running lesson: evaluates its checks against the live arm, reports them, and calls
+ * `onStepPassed` once they have all held for the step's hold time. Tip zones are drawn in the arm's frame, turning
+ * green while the tip is inside.
+ */
+export function LessonRunner({
+  run,
+  armRoot,
+  joints,
+  endEffector,
+  readings,
+  onReadings,
+  onStepPassed,
+}: {
+  run: LessonRun | null;
+  armRoot: THREE.Object3D | null;
+  joints: THREE.Object3D[];
+  endEffector: THREE.Object3D | null;
+  readings: CheckReading[];
+  onReadings: (readings: CheckReading[]) => void;
+  onStepPassed: () => void;
+}) {
+  const elapsedRef = useRef(0);
+  const heldRef = useRef(0);
+  const lastReportRef = useRef('');
+  // The run a pass was reported for; held off until the parent has moved on to the next step.
+  const reportedRunRef = useRef<LessonRun | null>(null);
+  const step = run && getCurrentStep(run);
+
+  useEffect(() => {
+    heldRef.current = 0;
+    lastReportRef.current = '';
+    onReadings([]);
+  }, [onReadings, step]);
+
+  useFrame((_, delta) => {
+    elapsedRef.current += delta;
+    if (elapsedRef.current < CHECK_INTERVAL || !run || !step || !armRoot) {
+      return;
+    }
+    const elapsed = elapsedRef.current;
+    elapsedRef.current = 0;
+
+    const next = step.checks.map((check) => evaluateCheck(check, joints, armRoot, endEffector));
+    const summary = next.map((reading) => `${reading.passed}:${reading.label}`).join('\n');
+    if (summary !== lastReportRef.current) {
+      lastReportRef.current = summary;
+      onReadings(next);
+    }
+
+    heldRef.current = next.every((reading) => reading.passed) ? heldRef.current + elapsed : 0;
+    if (heldRef.current >= step.hold && reportedRunRef.current !== run) {
+      reportedRunRef.current = run;
+      onStepPassed();
+    }
+  });
+
+  if (!armRoot || !step) {
+    return null;
+  }
+
+  return (
+    <FollowArm armRoot={armRoot}>
+      {step.checks.map((check, index) =>
+        check.type === 'tipZone' ? (
+          <mesh key={index} position={check.center}>
+            <sphereGeometry args={[check.radius, 24, 16]} />
+            <meshBasicMaterial
+              color={readings[index]?.passed ? PASS_COLOR : PENDING_COLOR}
+              transparent
+              opacity={0.3}
+              depthWrite={false}
+            />
+          </mesh>
+        ) : null,
+      )}
+    </FollowArm>
+  );
+}
+
+export function VRLessonPanel({
+  armRoot,
+  lesson,
+  run,
+  readings,
+  onStart,
+  onNextLesson,
+  onHint,
+  onSkip,
+  onStop,
+}: {
+  armRoot: THREE.Object3D | null;
+  lesson: Lesson | null;
+  run: LessonRun | null;
+  readings: CheckReading[];
+  onStart: () => void;
+  onNextLesson: () => void;
+  onHint: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isPresenting = useXRPresenting();
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [0.55, 1.45, 0]);
+    }
+  });
+
+  if (!isPresenting || (!lesson && !run)) {
+    return null;
+  }
+
+  const step = run && getCurrentStep(run);
+  let lines: string[];
+  if (run && step) {
+    lines = [
+      `${run.lesson.title}  (${run.stepIndex + 1}/${run.lesson.steps.length})`,
+      step.title,
+      step.instruction,
+      '',
+      ...readings.map((reading) => `${reading.passed ? '[ok]' : '[  ]'} ${reading.label}`),
+      ...step.hints.slice(0, run.hintsShown).map((hint) => `Hint: ${hint}`),
+    ];
+  } else if (run) {
+    lines = [
+      `${run.lesson.title}: ${getLessonScore(run)}%`,
+      '',
+      ...run.results.map((result) => `${result.title}: ${result.status}, ${formatSeconds(result.seconds)}`),
+    ];
+  } else {
+    lines = [`Lesson: ${lesson!.title}`, lesson!.description];
+  }
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0.28, -0.2, -0.005]}>
+        <planeGeometry args={[0.62, 0.46]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text
+        position={[0, 0, 0]}
+        color="#eaf2ff"
+        fontSize={0.022}
+        maxWidth={0.58}
+        anchorX="left"
+        anchorY="top"
+        lineHeight={1.35}
+      >
+        {lines.join('\n')}
+      </Text>
+      {run && step && (
+        <>
+          <XRPanelButton
+            position={[0.09, -0.37, 0]}
+            width={0.18}
+            label={`Hint (${step.hints.length - run.hintsShown})`}
+            onPress={onHint}
+          />
+          <XRPanelButton position={[0.29, -0.37, 0]} width={0.18} label="Skip" onPress={onSkip} />
+          <XRPanelButton position={[0.49, -0.37, 0]} width={0.18} label="Stop" onPress={onStop} />
+        </>
+      )}
+      {run && !step && <XRPanelButton position={[0.28, -0.37, 0]} width={0.28} label="Done" onPress={onStop} />}
+      {!run && (
+        <>
+          <XRPanelButton position={[0.13, -0.37, 0]} width={0.28} label="Next lesson" onPress={onNextLesson} />
+          <XRPanelButton position={[0.43, -0.37, 0]} width={0.28} label="Start" active onPress={onStart} />
+        </>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import XRPanelButton from './XRPanelButton.tsx';
+import {
+  getAnchorWorld,
+  MEASURE_POINTS,
+  readMeasurement,
+  type MeasureAnchor,
+  type MeasureMode,
+  type MeasureSnap,
+  type MeasureState,
+  type Measurement,
+} from './measure.ts';
+import { placeBesideArm, useXRPresenting } from './xrUi.ts';
+import { activeButtonStyle, buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+// Readings are refreshed at 10 Hz, like the kinematics readout, so labels keep up with a drag without re-rendering
+// every frame.
+const READ_INTERVAL = 0.1;
+const MEASURE_COLOR = '#6bffe8';
+const NEXT_MODE: Record<MeasureMode, MeasureMode> = { off: 'distance', distance: 'angle', angle: 'off' };
+const MODE_LABELS: Record<MeasureMode, string> = { off: 'Off', distance: 'Distance', angle: 'Angle' };
+
+const tempPoint = new THREE.Vector3();
+const tempLabelPos = new THREE.Vector3();
+
+function describeAnchors(measurement: Measurement): string {
+  return measurement.anchors.map((anchor) => anchor.object.name || 'point').join(' – ');
+}
+
+function getPrompt(mode: MeasureMode, pending: number): string {
+  if (mode === 'off') {
+    return 'Choose distance or angle, then pick points on an arm.';
+  }
+
+  const needed = MEASURE_POINTS[mode];
+  const next = mode === 'angle' && pending === 1 ? 'the corner point' : `point ${pending + 1} of ${needed}`;
+  return `Pick ${next} on an arm.`;
+}
+
+export default function MeasurePanel({
+  mode,
+  snap,
+  joints,
+  measure,
+  readings,
+  onModeChange,
+  onSnapChange,
+  onMeasureJoints,
+  onMeasureLinks,
+  onDelete,
+  onClear,
+}: {
+  mode: MeasureMode;
+  snap: MeasureSnap;
+  // Joint origins (and the tool tip) of the active arm that can be measured between directly.
+  joints: THREE.Object3D[];
+  measure: MeasureState;
+  readings: Record<string, string>;
+  onModeChange: (mode: MeasureMode) => void;
+  onSnapChange: (snap: MeasureSnap) => void;
+  onMeasureJoints: (a: THREE.Object3D, b: THREE.Object3D) => void;
+  onMeasureLinks: () => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}) {
+  const [fromIndex, setFromIndex] = useState(0);
+  const [toIndex, setToIndex] = useState(1);
+  const from = joints[fromIndex];
+  const to = joints[toIndex];
+
+  const jointSelect = (value: number, onChange: (index: number) => void) => (
+    <select
+      value={value}
+      onChange={(event) => onChange(Number(event.target.value))}
+      style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+    >
+      {joints.map((joint, index) => (
+        <option key={joint.uuid} value={index} style={{ color: '#000000' }}>
+          {joint.name || '(unnamed)'}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div style={{ ...panelStyle, width: '280px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Measure</div>
+        <button type="button" onClick={onClear} style={buttonStyle} disabled={measure.measurements.length === 0}>
+          Clear
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '6px' }}>
+        {(['off', 'distance', 'angle'] as const).map((option) => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onModeChange(option)}
+            style={mode === option ? activeButtonStyle : buttonStyle}
+          >
+            {MODE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+        <input
+          type="checkbox"
+          checked={snap === 'joint'}
+          onChange={() => onSnapChange(snap === 'joint' ? 'surface' : 'joint')}
+        />
+        Snap points to the joint that moves the link
+      </label>
+      <div style={{ opacity: 0.7, marginBottom: '10px' }}>{getPrompt(mode, measure.pending.length)}</div>
+
+      <div style={{ fontWeight: 700, marginBottom: '6px' }}>Between joint origins</div>
+      {joints.length < 2 ? (
+        <div style={{ opacity: 0.7, marginBottom: '10px' }}>This arm has no joints to measure between.</div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '10px' }}>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            {jointSelect(fromIndex, setFromIndex)}
+            {jointSelect(toIndex, setToIndex)}
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <button
+              type="button"
+              onClick={() => from && to && from !== to && onMeasureJoints(from, to)}
+              disabled={!from || !to || from === to}
+              style={buttonStyle}
+            >
+              Measure
+            </button>
+            <button
+              type="button"
+              onClick={onMeasureLinks}
+              title="From every joint to the joint above it in the chain"
+              style={buttonStyle}
+            >
+              All link lengths
+            </button>
+          </div>
+        </div>
+      )}
+
+      {measure.measurements.length > 0 && <div style={{ fontWeight: 700, marginBottom: '6px' }}>Measurements</div>}
+      {measure.measurements.map((measurement) => (
+        <div key={measurement.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px' }}>
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {describeAnchors(measurement)}
+          </span>
+          <span style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' }}>
+            {readings[measurement.id] ?? ''}
+          </span>
+          <button type="button" onClick={() => onDelete(measurement.id)} style={buttonStyle} title="Remove">
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// The points, the line through them and, once complete, the reading at the midpoint or at the angle's corner.
+function MeasureShape({ anchors, label }: { anchors: MeasureAnchor[]; label: string | null }) {
+  const pointsRef = useRef<THREE.Group>(null);
+  const labelRef = useRef<THREE.Group>(null);
+  const line = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(3 * 3), 3),
+    );
+    const material = new THREE.LineBasicMaterial({ color: MEASURE_COLOR, depthTest: false, depthWrite: false });
+    return new THREE.Line(geometry, material);
+  }, []);
+
+  useEffect(() => {
+    line.renderOrder = 1000;
+    line.frustumCulled = false;
+
+    return () => {
+      line.geometry.dispose();
+      (line.material as THREE.Material).dispose();
+    };
+  }, [line]);
+
+  useFrame(() => {
+    const positions = line.geometry.attributes.position as THREE.BufferAttribute;
+    anchors.forEach((anchor, index) => {
+      getAnchorWorld(anchor, tempPoint);
+      positions.setXYZ(index, tempPoint.x, tempPoint.y, tempPoint.z);
+      pointsRef.current?.children[index]?.position.copy(tempPoint);
+    });
+    positions.needsUpdate = true;
+    line.geometry.setDrawRange(0, anchors.length);
+
+    if (labelRef.current && anchors.length > 0) {
+      if (anchors.length === 3) {
+        getAnchorWorld(anchors[1], tempLabelPos);
+      } else {
+        getAnchorWorld(anchors[0], tempLabelPos);
+        tempLabelPos.lerp(getAnchorWorld(anchors[anchors.length - 1], tempPoint), 0.5);
+      }
+      labelRef.current.position.copy(tempLabelPos).add(tempPoint.set(0, 0.04, 0));
+    }
+  });
+
+  return (
+    <>
+      <primitive object={line} />
+      <group ref={pointsRef}>
+        {anchors.map((_, index) => (
+          <mesh key={index} renderOrder={1000}>
+            <sphereGeometry args={[0.008, 12, 8]} />
+            <meshBasicMaterial color={MEASURE_COLOR} depthTest={false} depthWrite={false} />
+          </mesh>
+        ))}
+      </group>
+      <group ref={labelRef}>
+        {label && (
+          <Billboard>
+            <Text
+              color={MEASURE_COLOR}
+              fontSize={0.03}
+              anchorX="center"
+              anchorY="bottom"
+              outlineWidth={0.002}
+              outlineColor="#0a1428"
+              renderOrder={1000}
+              material-depthTest={false}
+              material-depthWrite={false}
+            >
+              {label}
+            </Text>
+          </Billboard>
+        )}
+      </group>
+    </>
+  );
+}
+
+/** Draws every measurement where its points are now, and reports the readings as the arm moves under them. */
+export function MeasureOverlay({
+  measure,
+  readings,
+  onReadings,
+}: {
+  measure: MeasureState;
+  readings: Record<string, string>;
+  onReadings: (readings: Record<string, string>) => void;
+}) {
+  const elapsedRef = useRef(READ_INTERVAL);
+  const lastRef = useRef('');
+
+  useFrame((_, delta) => {
+    elapsedRef.current += delta;
+    if (elapsedRef.current < READ_INTERVAL) {
+      return;
+    }
+    elapsedRef.current = 0;
+
+    const next = Object.fromEntries(
+      measure.measurements.map((measurement) => [measurement.id, readMeasurement(measurement)]),
+    );
+    const key = JSON.stringify(next);
+    if (key !== lastRef.current) {
+      lastRef.current = key;
+      onReadings(next);
+    }
+  });
+
+  return (
+    <>
+      {measure.measurements.map((measurement) => (
+        <MeasureShape key={measurement.id} anchors={measurement.anchors} label={readings[measurement.id] ?? null} />
+      ))}
+      {measure.pending.length > 0 && <MeasureShape anchors={measure.pending} label={null} />}
+    </>
+  );
+}
+
+export function VRMeasureControls({
+  armRoot,
+  mode,
+  snap,
+  measure,
+  onModeChange,
+  onSnapChange,
+  onUndo,
+  onClear,
+}: {
+  armRoot: THREE.Object3D | null;
+  mode: MeasureMode;
+  snap: MeasureSnap;
+  measure: MeasureState;
+  onModeChange: (mode: MeasureMode) => void;
+  onSnapChange: (snap: MeasureSnap) => void;
+  // Takes back the last point placed, or the last measurement if none is pending.
+  onUndo: () => void;
+  onClear: () => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isPresenting = useXRPresenting();
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [-0.6, 1.45, 0]);
+    }
+  });
+
+  if (!isPresenting) {
+    return null;
+  }
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0, -0.12, -0.005]}>
+        <planeGeometry args={[0.48, 0.34]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text position={[0, 0, 0]} color="#eaf2ff" fontSize={0.024} anchorX="center" anchorY="middle">
+        {mode === 'off' ? 'Measure' : getPrompt(mode, measure.pending.length)}
+      </Text>
+      <XRPanelButton
+        position={[0, -0.07, 0]}
+        width={0.4}
+        label={`Measure: ${MODE_LABELS[mode].toLowerCase()}`}
+        active={mode !== 'off'}
+        onPress={() => onModeChange(NEXT_MODE[mode])}
+      />
+      <XRPanelButton
+        position={[0, -0.14, 0]}
+        width={0.4}
+        label={snap === 'joint' ? 'Snap: joint origins' : 'Snap: surfaces'}
+        active={snap === 'joint'}
+        onPress={() => onSnapChange(snap === 'joint' ? 'surface' : 'joint')}
+      />
+      <XRPanelButton position={[-0.1, -0.21, 0]} width={0.19} label="Undo" onPress={onUndo} />
+      <XRPanelButton position={[0.1, -0.21, 0]} width={0.19} label="Clear" onPress={onClear} />
+    </group>
+  );
+}
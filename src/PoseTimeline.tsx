@@ -0,0 +1,310 @@
+import { useEffect, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { guardPose, type CollisionWorld } from './collisions.ts';
+import { applySequenceAt, getSequenceDuration, sortKeyframes, type Keyframe, type Pose, type Sequence } from './poses.ts';
+import XRPanelButton from './XRPanelButton.tsx';
+import { placeBesideArm, registerXRButton, useXRPresenting } from './xrUi.ts';
+import { buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+type PosePanelProps = {
+  sequence: Sequence;
+  playing: boolean;
+  time: number;
+  loop: boolean;
+  onSavePose: (name: string) => void;
+  onApplyPose: (pose: Pose) => void;
+  onDeletePose: (poseId: string) => void;
+  onAddKeyframe: (poseId: string) => void;
+  onKeyframeChange: (index: number, keyframe: Keyframe) => void;
+  onDeleteKeyframe: (index: number) => void;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: boolean) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const sectionTitleStyle = { fontWeight: 700, fontSize: '13px', margin: '10px 0 6px' };
+
+export default function PosePanel({
+  sequence,
+  playing,
+  time,
+  loop,
+  onSavePose,
+  onApplyPose,
+  onDeletePose,
+  onAddKeyframe,
+  onKeyframeChange,
+  onDeleteKeyframe,
+  onTogglePlay,
+  onSeek,
+  onLoopChange,
+  onExport,
+  onImport,
+}: PosePanelProps) {
+  const [poseName, setPoseName] = useState('');
+  const duration = getSequenceDuration(sequence);
+  const keyframes = sortKeyframes(sequence.keyframes);
+
+  const savePose = () => {
+    onSavePose(poseName.trim() || `Pose ${sequence.poses.length + 1}`);
+    setPoseName('');
+  };
+
+  return (
+    <div style={{ ...panelStyle, width: '300px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Poses</div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <label style={buttonStyle}>
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              style={{ display: 'none' }}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) {
+                  onImport(file);
+                }
+                event.target.value = '';
+              }}
+            />
+          </label>
+          <button type="button" onClick={onExport} style={buttonStyle}>
+            Export
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '6px', marginTop: '8px' }}>
+        <input
+          type="text"
+          placeholder={`Pose ${sequence.poses.length + 1}`}
+          value={poseName}
+          onChange={(event) => setPoseName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') {
+              savePose();
+            }
+          }}
+          style={{ ...fieldStyle, flex: 1 }}
+        />
+        <button type="button" onClick={savePose} style={buttonStyle}>
+          Save pose
+        </button>
+      </div>
+
+      {sequence.poses.length === 0 && <div style={{ opacity: 0.7, marginTop: '8px' }}>No poses saved yet.</div>}
+      {sequence.poses.map((pose) => (
+        <div key={pose.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}>
+          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{pose.name}</span>
+          <button type="button" onClick={() => onApplyPose(pose)} style={buttonStyle}>
+            Apply
+          </button>
+          <button type="button" onClick={() => onAddKeyframe(pose.id)} style={buttonStyle} title="Add as keyframe">
+            + Key
+          </button>
+          <button type="button" onClick={() => onDeletePose(pose.id)} style={buttonStyle} title="Delete pose">
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div style={sectionTitleStyle}>Timeline</div>
+      {keyframes.length === 0 && <div style={{ opacity: 0.7 }}>Add poses as keyframes to build a sequence.</div>}
+      {keyframes.map((keyframe, index) => (
+        <div
+          key={`${keyframe.poseId}-${keyframe.time}-${index}`}
+          style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}
+        >
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            defaultValue={keyframe.time}
+            onBlur={(event) => {
+              const nextTime = Number(event.target.value);
+              if (Number.isFinite(nextTime) && nextTime !== keyframe.time) {
+                onKeyframeChange(index, { ...keyframe, time: Math.max(0, nextTime) });
+              }
+            }}
+            style={{ ...fieldStyle, width: '56px' }}
+          />
+          <span style={{ opacity: 0.7 }}>s</span>
+          <select
+            value={keyframe.poseId}
+            onChange={(event) => onKeyframeChange(index, { ...keyframe, poseId: event.target.value })}
+            style={{ ...fieldStyle, flex: 1 }}
+          >
+            {sequence.poses.map((pose) => (
+              <option key={pose.id} value={pose.id} style={{ color: '#000000' }}>
+                {pose.name}
+              </option>
+            ))}
+          </select>
+          <button type="button" onClick={() => onDeleteKeyframe(index)} style={buttonStyle} title="Remove keyframe">
+            ✕
+          </button>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '10px' }}>
+        <button type="button" onClick={onTogglePlay} disabled={keyframes.length === 0} style={buttonStyle}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 1}
+          step={0.01}
+          value={Math.min(time, duration)}
+          disabled={keyframes.length === 0}
+          onChange={(event) => onSeek(Number(event.target.value))}
+          style={{ flex: 1 }}
+        />
+        <span style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' }}>
+          {time.toFixed(1)}/{duration.toFixed(1)}s
+        </span>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}>
+        <input type="checkbox" checked={loop} onChange={(event) => onLoopChange(event.target.checked)} />
+        Loop
+      </label>
+    </div>
+  );
+}
+
+/**
+ * Advances the playhead while `playing` and poses the joints from the sequence every frame. Scrubbing while
+ * paused is handled by the caller, so saving a new pose never snaps the arm back to the timeline. While collisions
+ * block motion, a frame that would run into one is held at the last clear pose until the sequence moves clear again.
+ */
+export function TimelinePlayer({
+  sequence,
+  joints,
+  collisionGuard,
+  playing,
+  time,
+  loop,
+  onTimeChange,
+  onFinished,
+}: {
+  sequence: Sequence;
+  joints: THREE.Object3D[];
+  collisionGuard: CollisionWorld | null;
+  playing: boolean;
+  time: number;
+  loop: boolean;
+  onTimeChange: (time: number) => void;
+  onFinished: () => void;
+}) {
+  const timeRef = useRef(time);
+  const elapsedRef = useRef(0);
+
+  useEffect(() => {
+    if (!playing) {
+      timeRef.current = time;
+    }
+  }, [playing, time]);
+
+  useFrame((_, delta) => {
+    if (!playing) {
+      return;
+    }
+
+    const duration = getSequenceDuration(sequence);
+    let nextTime = timeRef.current + delta;
+
+    if (nextTime > duration) {
+      if (loop && duration > 0) {
+        nextTime %= duration;
+      } else {
+        nextTime = duration;
+        onFinished();
+      }
+    }
+
+    timeRef.current = nextTime;
+    guardPose(collisionGuard, joints, () => applySequenceAt(sequence, nextTime, joints));
+
+    elapsedRef.current += delta;
+    if (elapsedRef.current >= 0.1 || nextTime === duration) {
+      elapsedRef.current = 0;
+      onTimeChange(nextTime);
+    }
+  });
+
+  return null;
+}
+
+export function VRTimelineControls({
+  armRoot,
+  playing,
+  time,
+  duration,
+  onTogglePlay,
+  onSeek,
+}: {
+  armRoot: THREE.Object3D | null;
+  playing: boolean;
+  time: number;
+  duration: number;
+  onTogglePlay: () => void;
+  onSeek: (time: number) => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const barRef = useRef<THREE.Mesh>(null);
+  const isPresenting = useXRPresenting();
+  const barWidth = 0.4;
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [-0.6, 0.6, 0]);
+    }
+  });
+
+  // Pointing at the bar and pulling the trigger jumps the playhead to that spot.
+  useEffect(() => {
+    if (!barRef.current || !isPresenting) {
+      return;
+    }
+
+    const bar = barRef.current;
+    return registerXRButton(bar, (hit) => {
+      const local = bar.worldToLocal(hit.point.clone());
+      onSeek(THREE.MathUtils.clamp(local.x / barWidth + 0.5, 0, 1) * duration);
+    });
+  }, [duration, isPresenting, onSeek]);
+
+  if (!isPresenting || duration <= 0) {
+    return null;
+  }
+
+  const progress = THREE.MathUtils.clamp(time / duration, 0, 1);
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0, 0, -0.005]}>
+        <planeGeometry args={[0.48, 0.24]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text position={[0, 0.08, 0]} color="#eaf2ff" fontSize={0.024} anchorX="center" anchorY="middle">
+        {`Timeline  ${time.toFixed(1)} / ${duration.toFixed(1)} s`}
+      </Text>
+      <mesh ref={barRef} position={[0, 0.02, 0]}>
+        <planeGeometry args={[barWidth, 0.03]} />
+        <meshBasicMaterial color="#2b3b5a" />
+      </mesh>
+      <mesh position={[(progress - 1) * barWidth * 0.5, 0.02, 0.001]} scale={[Math.max(progress, 0.001), 1, 1]}>
+        <planeGeometry args={[barWidth, 0.03]} />
+        <meshBasicMaterial color="#6bb7ff" />
+      </mesh>
+      <XRPanelButton position={[-0.1, -0.06, 0]} width={0.16} label="Restart" onPress={() => onSeek(0)} />
+      <XRPanelButton position={[0.1, -0.06, 0]} width={0.16} label={playing ? 'Pause' : 'Play'} onPress={onTogglePlay} />
+    </group>
+  );
+}
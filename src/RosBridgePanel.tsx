@@ -0,0 +1,177 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import type * as THREE from 'three';
+import { guardPose, type CollisionWorld } from './collisions.ts';
+import { clampIfNeeded, getJointConstraint, type JointConstraint } from './joints.ts';
+import { driveAxis, readJointAxis } from './motion.ts';
+import {
+  DEFAULT_ROSBRIDGE_OPTIONS,
+  type RosBridgeConnection,
+  type RosBridgeOptions,
+  type RosBridgeStatus,
+  type RosJointAxis,
+} from './rosbridge.ts';
+import { buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+const STATUS_LABELS: Partial<Record<RosBridgeStatus, string>> = {
+  connecting: 'Connecting…',
+  open: 'Connected',
+  closed: 'Disconnected',
+};
+
+// JointState goes out at 20 Hz, a common rate for joint_states publishers.
+const PUBLISH_INTERVAL = 1 / 20;
+
+export default function RosBridgePanel({
+  status,
+  axes,
+  onConnect,
+  onDisconnect,
+}: {
+  status: RosBridgeStatus | null;
+  axes: RosJointAxis[];
+  onConnect: (options: RosBridgeOptions) => void;
+  onDisconnect: () => void;
+}) {
+  const [options, setOptions] = useState(DEFAULT_ROSBRIDGE_OPTIONS);
+  const connected = status === 'connecting' || status === 'open';
+  const failure = status?.startsWith('error: ') ? status.slice('error: '.length) : null;
+
+  const textField = (key: 'url' | 'stateTopic' | 'commandTopic', label: string) => (
+    <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      <span style={{ width: '64px', opacity: 0.8 }}>{label}</span>
+      <input
+        type="text"
+        value={options[key]}
+        disabled={connected}
+        onChange={(event) => setOptions((current) => ({ ...current, [key]: event.target.value }))}
+        style={{ ...fieldStyle, flex: 1 }}
+      />
+    </label>
+  );
+
+  return (
+    <div style={{ ...panelStyle, width: '280px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>ROS bridge</div>
+        <span style={{ opacity: 0.8 }}>{status ? (STATUS_LABELS[status] ?? 'Failed') : 'Offline'}</span>
+      </div>
+      {failure && <div style={{ color: '#ff8a8a', marginBottom: '8px' }}>{failure}</div>}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        {textField('url', 'URL')}
+        {textField('stateTopic', 'Publish')}
+        {textField('commandTopic', 'Command')}
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+          <input
+            type="checkbox"
+            checked={options.ros2}
+            disabled={connected}
+            onChange={(event) => setOptions((current) => ({ ...current, ros2: event.target.checked }))}
+          />
+          ROS 2 message names
+        </label>
+        <button
+          type="button"
+          onClick={() =>
+            connected
+              ? onDisconnect()
+              : onConnect({
+                  ...options,
+                  url: options.url.trim(),
+                  stateTopic: options.stateTopic.trim(),
+                  commandTopic: options.commandTopic.trim(),
+                })
+          }
+          style={buttonStyle}
+        >
+          {connected ? 'Disconnect' : 'Connect'}
+        </button>
+      </div>
+      {!connected && (
+        <div style={{ opacity: 0.7, marginTop: '8px' }}>
+          Connect to a rosbridge_server, or try it out with `npm run mock-rosbridge`.
+        </div>
+      )}
+      <div style={{ fontWeight: 700, margin: '8px 0 4px' }}>Joint names</div>
+      {axes.length === 0 ? (
+        <div style={{ opacity: 0.7 }}>No movable joints.</div>
+      ) : (
+        axes.map((axis) => (
+          <div key={axis.name} style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace' }}>
+            {axis.name}
+            <span style={{ opacity: 0.6 }}>{axis.kind === 'rotation' ? ' (rad)' : ' (units)'}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Publishes the arm's joint values to ROS and drives the joints from the command topic. Commands are clamped to
+ * the joint limits and go through `driveAxis`, so velocity limits and collision blocking hold as they do for drags.
+ */
+export function RosBridgeSync({
+  connection,
+  axes,
+  jointConstraints,
+  collisionGuard,
+  isJointHeld,
+}: {
+  connection: RosBridgeConnection | null;
+  axes: RosJointAxis[];
+  jointConstraints: Record<string, JointConstraint>;
+  collisionGuard: CollisionWorld | null;
+  // Joints someone is dragging, here or in a shared session; commands leave them where the hand put them.
+  isJointHeld: (joint: THREE.Object3D) => boolean;
+}) {
+  const elapsedRef = useRef(0);
+  const lastValuesRef = useRef<number[] | null>(null);
+  const joints = useMemo(() => [...new Set(axes.map((axis) => axis.joint))], [axes]);
+
+  useEffect(() => {
+    lastValuesRef.current = null;
+  }, [axes, connection]);
+
+  useFrame((_, delta) => {
+    if (!connection) {
+      return;
+    }
+
+    const command = connection.command;
+    if (command) {
+      connection.command = null;
+      const indices = new Map(command.name.map((name, index) => [name, index]));
+
+      guardPose(collisionGuard, joints, () => {
+        axes.forEach(({ name, joint, kind, axis }) => {
+          const value = command.position[indices.get(name) ?? -1];
+          if (!Number.isFinite(value) || isJointHeld(joint)) {
+            return;
+          }
+
+          const constraint = getJointConstraint(jointConstraints, joint);
+          const axisConstraint = kind === 'rotation' ? constraint[axis] : constraint.translation?.[axis];
+          driveAxis(joint, kind, axis, clampIfNeeded(value, axisConstraint), axisConstraint);
+        });
+      });
+    }
+
+    elapsedRef.current += delta;
+    if (elapsedRef.current < PUBLISH_INTERVAL) {
+      return;
+    }
+
+    const elapsed = elapsedRef.current;
+    elapsedRef.current = 0;
+
+    const positions = axes.map(({ joint, kind, axis }) => readJointAxis(joint, kind, axis));
+    const last = lastValuesRef.current;
+    const velocities = positions.map((value, index) => (last ? (value - last[index]) / elapsed : 0));
+    lastValuesRef.current = positions;
+
+    connection.publishJointState(axes.map((axis) => axis.name), positions, velocities);
+  });
+
+  return null;
+}
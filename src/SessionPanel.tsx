@@ -0,0 +1,418 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import {
+  DEFAULT_RELAY_URL,
+  isLockedByOther,
+  jointKey,
+  type SessionArm,
+  type SessionConnection,
+  type SessionPeer,
+  type SessionRay,
+  type SessionState,
+  type SessionStatus,
+} from './session.ts';
+import { buttonStyle, fieldStyle, panelStyle } from './panelStyles.ts';
+
+const STATUS_LABELS: Partial<Record<SessionStatus, string>> = {
+  connecting: 'Connecting…',
+  open: 'Connected',
+  closed: 'Disconnected',
+};
+
+// Updates go out at 15 Hz: smooth enough to watch, light enough for a classroom on one relay.
+const SYNC_INTERVAL = 1 / 15;
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+const tempDirection = new THREE.Vector3();
+const tempRayPos = new THREE.Vector3();
+const tempRayQuat = new THREE.Quaternion();
+
+export default function SessionPanel({
+  status,
+  selfId,
+  peers,
+  locks,
+  onConnect,
+  onDisconnect,
+}: {
+  status: SessionStatus | null;
+  selfId: string | null;
+  peers: SessionPeer[];
+  locks: Record<string, string>;
+  onConnect: (url: string, name: string) => void;
+  onDisconnect: () => void;
+}) {
+  const [url, setUrl] = useState(DEFAULT_RELAY_URL);
+  const [name, setName] = useState('');
+  const connected = status === 'connecting' || status === 'open';
+  const failure = status?.startsWith('error: ') ? status.slice('error: '.length) : null;
+
+  return (
+    <div style={{ ...panelStyle, width: '280px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Shared session</div>
+        <span style={{ opacity: 0.8 }}>{status ? (STATUS_LABELS[status] ?? 'Failed') : 'Offline'}</span>
+      </div>
+      {failure && <div style={{ color: '#ff8a8a', marginBottom: '8px' }}>{failure}</div>}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}>
+        <input
+          type="text"
+          placeholder="Your name"
+          value={name}
+          disabled={connected}
+          onChange={(event) => setName(event.target.value)}
+          style={fieldStyle}
+        />
+        <input
+          type="text"
+          value={url}
+          disabled={connected}
+          onChange={(event) => setUrl(event.target.value)}
+          style={fieldStyle}
+        />
+        <button
+          type="button"
+          onClick={() => (connected ? onDisconnect() : onConnect(url.trim(), name.trim()))}
+          style={buttonStyle}
+        >
+          {connected ? 'Leave session' : 'Join session'}
+        </button>
+      </div>
+      {!connected && (
+        <div style={{ opacity: 0.7, marginTop: '8px' }}>Start a relay with `npm run relay`, then join from every headset.</div>
+      )}
+      {peers.map((peer) => {
+        // Keys are `${armId}/${jointName}`; the panel names just the joints.
+        const held = Object.keys(locks)
+          .filter((key) => locks[key] === peer.id)
+          .map((key) => key.slice(key.indexOf('/') + 1));
+        return (
+          <div key={peer.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}>
+            <span
+              style={{ width: '10px', height: '10px', borderRadius: '50%', background: peer.color, display: 'inline-block' }}
+            />
+            <span style={{ flex: 1 }}>
+              {peer.name}
+              {peer.id === selfId ? ' (you)' : ''}
+            </span>
+            {held.length > 0 && <span style={{ opacity: 0.8 }}>holds {held.join(', ')}</span>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function serializeRoot(root: THREE.Object3D): string {
+  return [...root.position.toArray(), ...root.quaternion.toArray(), ...root.scale.toArray()]
+    .map((value) => value.toFixed(5))
+    .join(',');
+}
+
+function serializeJoint(joint: THREE.Object3D): string {
+  return [...joint.position.toArray(), ...joint.quaternion.toArray()].map((value) => value.toFixed(5)).join(',');
+}
+
+function PeerRays({ connection, peer }: { connection: SessionConnection; peer: SessionPeer }) {
+  const labelRef = useRef<THREE.Group>(null);
+  const lines = useMemo(
+    () =>
+      [0, 1].map(() => {
+        const geometry = new THREE.BufferGeometry().setFromPoints([new THREE.Vector3(0, 0, 0), FORWARD.clone()]);
+        const line = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: peer.color }));
+        line.scale.z = 4;
+        line.visible = false;
+        return line;
+      }),
+    [peer.color],
+  );
+
+  useEffect(
+    () => () => {
+      lines.forEach((line) => {
+        line.geometry.dispose();
+        (line.material as THREE.Material).dispose();
+      });
+    },
+    [lines],
+  );
+
+  useFrame(() => {
+    const rays = connection.rays.get(peer.id) ?? [];
+
+    lines.forEach((line, index) => {
+      const ray = rays[index];
+      line.visible = Boolean(ray);
+      if (ray) {
+        line.position.fromArray(ray.origin);
+        line.quaternion.setFromUnitVectors(FORWARD, tempDirection.fromArray(ray.direction).normalize());
+      }
+    });
+
+    if (labelRef.current) {
+      labelRef.current.visible = rays.length > 0;
+      if (rays[0]) {
+        labelRef.current.position.fromArray(rays[0].origin);
+        labelRef.current.position.y += 0.08;
+      }
+    }
+  });
+
+  return (
+    <>
+      {lines.map((line) => (
+        <primitive key={line.uuid} object={line} />
+      ))}
+      <group ref={labelRef} visible={false}>
+        <Billboard>
+          <Text color={peer.color} fontSize={0.035} anchorX="center" anchorY="bottom" outlineWidth={0.002}>
+            {peer.name}
+          </Text>
+        </Billboard>
+      </group>
+    </>
+  );
+}
+
+function HolderLabel({ joint, peer }: { joint: THREE.Object3D; peer: SessionPeer }) {
+  const groupRef = useRef<THREE.Group>(null);
+
+  useFrame(() => {
+    if (groupRef.current) {
+      joint.getWorldPosition(groupRef.current.position);
+      groupRef.current.position.y += 0.06;
+    }
+  });
+
+  return (
+    <group ref={groupRef}>
+      <Billboard>
+        <Text color={peer.color} fontSize={0.03} anchorX="center" anchorY="bottom" outlineWidth={0.002}>
+          {`${peer.name} has ${joint.name}`}
+        </Text>
+      </Billboard>
+    </group>
+  );
+}
+
+// One arm as the session sees it. `root` is null, and `joints` empty, until its model has loaded.
+export type SyncedArm = {
+  id: string;
+  modelId: string;
+  root: THREE.Object3D | null;
+  joints: THREE.Object3D[];
+};
+
+// What this view last sent or received for one arm.
+type ArmSyncState = {
+  modelId: string;
+  root: string;
+  joints: Map<string, string>;
+};
+
+/**
+ * Keeps every arm in this view in step with the shared session, each by its instance id: applies what others
+ * changed, sends out what changed here (arms added or taken out, their placement and any joint not held by someone
+ * else), and draws the other participants' controller rays and the joints they are holding.
+ */
+export function SessionSync({
+  connection,
+  arms,
+  peers,
+  locks,
+  onSceneJoin,
+  onRemoteArm,
+  onRemoteRemove,
+}: {
+  connection: SessionConnection | null;
+  arms: SyncedArm[];
+  peers: SessionPeer[];
+  locks: Record<string, string>;
+  // Replaces this view's arms with the ones already in the session.
+  onSceneJoin: (arms: SessionArm[]) => void;
+  // Adds an arm someone else put in the scene, or switches its model; false when this browser doesn't have it.
+  onRemoteArm: (arm: SessionArm) => boolean;
+  onRemoteRemove: (armId: string) => void;
+}) {
+  const { gl } = useThree();
+  const elapsedRef = useRef(0);
+  const sentRaysRef = useRef(false);
+  // What this view last sent or received, by arm id, so remote changes aren't echoed back and unchanged values
+  // aren't resent. An arm missing here that is still in `arms` hasn't been shared yet.
+  const syncedRef = useRef(new Map<string, ArmSyncState>());
+
+  useEffect(() => {
+    syncedRef.current = new Map();
+  }, [connection]);
+
+  const getSynced = (armId: string, modelId: string): ArmSyncState => {
+    let synced = syncedRef.current.get(armId);
+    if (!synced || synced.modelId !== modelId) {
+      synced = { modelId, root: '', joints: new Map() };
+      syncedRef.current.set(armId, synced);
+    }
+    return synced;
+  };
+
+  const applyRemote = (arm: SyncedArm, root: THREE.Object3D, state: SessionState) => {
+    const synced = getSynced(arm.id, state.modelId);
+
+    if (state.root) {
+      root.position.fromArray(state.root.position);
+      root.quaternion.fromArray(state.root.quaternion);
+      root.scale.fromArray(state.root.scale);
+      synced.root = serializeRoot(root);
+    }
+
+    const jointsByName = new Map(arm.joints.map((joint) => [joint.name, joint]));
+    Object.entries(state.joints ?? {}).forEach(([name, transform]) => {
+      const joint = jointsByName.get(name);
+      if (joint) {
+        joint.position.fromArray(transform.position);
+        joint.quaternion.fromArray(transform.quaternion);
+        synced.joints.set(name, serializeJoint(joint));
+      }
+    });
+  };
+
+  const sendChanges = (session: SessionConnection) => {
+    const synced = syncedRef.current;
+
+    arms.forEach((arm) => {
+      // A file opened from this computer only exists here, so there is nothing the others could load.
+      if (!arm.root || arm.modelId.startsWith('local-')) {
+        return;
+      }
+
+      const known = synced.get(arm.id);
+      const armSynced = getSynced(arm.id, arm.modelId);
+      const update: SessionState = { armId: arm.id, modelId: arm.modelId };
+      let changed = armSynced !== known;
+
+      const root = serializeRoot(arm.root);
+      if (root !== armSynced.root) {
+        update.root = {
+          position: arm.root.position.toArray() as [number, number, number],
+          quaternion: arm.root.quaternion.toArray() as [number, number, number, number],
+          scale: arm.root.scale.toArray() as [number, number, number],
+        };
+        armSynced.root = root;
+        changed = true;
+      }
+
+      arm.joints.forEach((joint) => {
+        if (isLockedByOther(session, arm.id, joint.name)) {
+          return;
+        }
+
+        const serialized = serializeJoint(joint);
+        if (serialized !== armSynced.joints.get(joint.name)) {
+          update.joints = {
+            ...update.joints,
+            [joint.name]: {
+              position: joint.position.toArray() as [number, number, number],
+              quaternion: joint.quaternion.toArray() as [number, number, number, number],
+            },
+          };
+          armSynced.joints.set(joint.name, serialized);
+          changed = true;
+        }
+      });
+
+      if (changed) {
+        session.sendState(update);
+      }
+    });
+
+    // An arm shared before and no longer here was taken out of this view, so it leaves everyone's.
+    [...synced.entries()].forEach(([armId, { modelId }]) => {
+      if (!arms.some((arm) => arm.id === armId)) {
+        synced.delete(armId);
+        session.sendState({ armId, modelId, removed: true });
+      }
+    });
+  };
+
+  useFrame((_, delta) => {
+    if (!connection) {
+      return;
+    }
+
+    if (connection.scene) {
+      onSceneJoin(connection.scene);
+      connection.scene = null;
+    }
+
+    while (connection.inbox.length > 0) {
+      const state = connection.inbox[0];
+      if (state.removed) {
+        connection.inbox.shift();
+        syncedRef.current.delete(state.armId);
+        onRemoteRemove(state.armId);
+        continue;
+      }
+
+      const arm = arms.find((candidate) => candidate.id === state.armId);
+      if (!arm || arm.modelId !== state.modelId || !arm.root) {
+        if (onRemoteArm({ armId: state.armId, modelId: state.modelId })) {
+          // Hold the update until that arm's model has loaded.
+          return;
+        }
+        connection.inbox.shift();
+        continue;
+      }
+
+      connection.inbox.shift();
+      applyRemote(arm, arm.root, state);
+    }
+
+    elapsedRef.current += delta;
+    if (elapsedRef.current < SYNC_INTERVAL) {
+      return;
+    }
+    elapsedRef.current = 0;
+
+    const rays: SessionRay[] = [];
+    if (gl.xr.isPresenting) {
+      for (let i = 0; i < 2; i += 1) {
+        const controller = gl.xr.getController(i);
+        controller.matrixWorld.decompose(tempRayPos, tempRayQuat, tempDirection);
+        rays.push({
+          origin: tempRayPos.toArray() as SessionRay['origin'],
+          direction: FORWARD.clone().applyQuaternion(tempRayQuat).toArray() as SessionRay['direction'],
+        });
+      }
+    }
+    if (rays.length > 0 || sentRaysRef.current) {
+      connection.sendRays(rays);
+      sentRaysRef.current = rays.length > 0;
+    }
+
+    // Nothing goes out before the welcome, which may bring a scene that replaces this one.
+    if (connection.selfId) {
+      sendChanges(connection);
+    }
+  });
+
+  if (!connection) {
+    return null;
+  }
+
+  const others = peers.filter((peer) => peer.id !== connection.selfId);
+
+  return (
+    <>
+      {others.map((peer) => (
+        <PeerRays key={peer.id} connection={connection} peer={peer} />
+      ))}
+      {arms.flatMap((arm) =>
+        arm.joints.map((joint) => {
+          const peer = others.find((other) => other.id === locks[jointKey(arm.id, joint.name)]);
+          return peer ? <HolderLabel key={`${arm.id}/${joint.uuid}`} joint={joint} peer={peer} /> : null;
+        }),
+      )}
+    </>
+  );
+}
@@ -0,0 +1,315 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import XRPanelButton from './XRPanelButton.tsx';
+import {
+  applyExplode,
+  applyLinkDisplay,
+  DEFAULT_ARM_VIEW,
+  getLinkDisplay,
+  measureArmSize,
+  NEXT_LINK_DISPLAY,
+  setLinkDisplay,
+  type ArmLink,
+  type ArmView,
+  type LinkDisplay,
+} from './armView.ts';
+import { placeBesideArm, useXRPresenting } from './xrUi.ts';
+import { activeButtonStyle, buttonStyle, panelStyle } from './panelStyles.ts';
+
+const XRAY_COLOR = '#ffd36b';
+// How quickly the exploded view opens and closes; about a third of a second either way.
+const EXPLODE_RATE = 8;
+const DISPLAY_LABELS: Record<LinkDisplay, string> = { solid: 'Solid', ghost: 'Ghost', hidden: 'Hidden' };
+
+const tempJointPos = new THREE.Vector3();
+const tempParentPos = new THREE.Vector3();
+
+const linkRowStyle = { display: 'flex', alignItems: 'center', gap: '4px', marginBottom: '4px' };
+
+export default function ViewPanel({
+  links,
+  view,
+  onChange,
+}: {
+  links: ArmLink[];
+  view: ArmView;
+  onChange: (view: ArmView) => void;
+}) {
+  return (
+    <div style={{ ...panelStyle, width: '280px', maxHeight: 'calc(100vh - 100px)', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>View</div>
+        <button type="button" onClick={() => onChange(DEFAULT_ARM_VIEW)} style={buttonStyle}>
+          Reset
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px', marginBottom: '8px' }}>
+        <button
+          type="button"
+          onClick={() => onChange({ ...view, exploded: !view.exploded })}
+          style={view.exploded ? activeButtonStyle : buttonStyle}
+        >
+          Exploded
+        </button>
+        <button
+          type="button"
+          onClick={() => onChange({ ...view, xray: !view.xray })}
+          title="See through every link, with the joint hierarchy and names drawn over it"
+          style={view.xray ? activeButtonStyle : buttonStyle}
+        >
+          X-ray
+        </button>
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '10px' }}>
+        Spread
+        <input
+          type="range"
+          min={0.1}
+          max={1}
+          step={0.05}
+          value={view.spread}
+          onChange={(event) => onChange({ ...view, spread: Number(event.target.value) })}
+          style={{ flex: 1 }}
+        />
+      </label>
+
+      <div style={{ fontWeight: 700, marginBottom: '6px' }}>Links</div>
+      {links.length === 0 && <div style={{ opacity: 0.7 }}>This arm has no links to show.</div>}
+      {links.map((link) => {
+        const display = getLinkDisplay(view, link.name);
+        return (
+          <div key={link.object.uuid} style={linkRowStyle}>
+            <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {link.name}
+            </span>
+            {(['solid', 'ghost', 'hidden'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(setLinkDisplay(view, link.name, option))}
+                style={{ ...(display === option ? activeButtonStyle : buttonStyle), padding: '2px 6px' }}
+              >
+                {DISPLAY_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Lines from every joint to the one above it (the first ones to the arm's base), and each joint's name.
+function HierarchyOverlay({ armRoot, joints }: { armRoot: THREE.Object3D; joints: THREE.Object3D[] }) {
+  const labelsRef = useRef<THREE.Group>(null);
+  const parents = useMemo(
+    () =>
+      joints.map((joint) => {
+        for (let current = joint.parent; current && current !== armRoot; current = current.parent) {
+          if (joints.includes(current)) {
+            return current;
+          }
+        }
+        return null;
+      }),
+    [armRoot, joints],
+  );
+
+  const lines = useMemo(() => {
+    const geometry = new THREE.BufferGeometry().setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(joints.length * 2 * 3), 3),
+    );
+    const material = new THREE.LineBasicMaterial({ color: XRAY_COLOR, depthTest: false, depthWrite: false });
+    return new THREE.LineSegments(geometry, material);
+  }, [joints]);
+
+  useEffect(() => {
+    lines.renderOrder = 1000;
+    lines.frustumCulled = false;
+
+    return () => {
+      lines.geometry.dispose();
+      (lines.material as THREE.Material).dispose();
+    };
+  }, [lines]);
+
+  useFrame(() => {
+    const positions = lines.geometry.attributes.position as THREE.BufferAttribute;
+    joints.forEach((joint, index) => {
+      joint.getWorldPosition(tempJointPos);
+      const parent = parents[index];
+      if (parent) {
+        parent.getWorldPosition(tempParentPos);
+      } else {
+        armRoot.getWorldPosition(tempParentPos);
+      }
+      positions.setXYZ(index * 2, tempParentPos.x, tempParentPos.y, tempParentPos.z);
+      positions.setXYZ(index * 2 + 1, tempJointPos.x, tempJointPos.y, tempJointPos.z);
+
+      labelsRef.current?.children[index]?.position.copy(tempJointPos);
+    });
+    positions.needsUpdate = true;
+  });
+
+  return (
+    <>
+      <primitive object={lines} />
+      <group ref={labelsRef}>
+        {joints.map((joint) => (
+          <group key={joint.uuid}>
+            <mesh renderOrder={1000}>
+              <sphereGeometry args={[0.008, 12, 8]} />
+              <meshBasicMaterial color={XRAY_COLOR} depthTest={false} depthWrite={false} />
+            </mesh>
+            <Billboard position={[0, 0.015, 0]}>
+              <Text
+                color={XRAY_COLOR}
+                fontSize={0.025}
+                anchorX="center"
+                anchorY="bottom"
+                outlineWidth={0.002}
+                outlineColor="#0a1428"
+                renderOrder={1000}
+                material-depthTest={false}
+                material-depthWrite={false}
+              >
+                {joint.name || 'joint'}
+              </Text>
+            </Billboard>
+          </group>
+        ))}
+      </group>
+    </>
+  );
+}
+
+/**
+ * Applies one arm's view to its meshes: links shown solid, ghosted or hidden (every visible link ghosted in x-ray),
+ * and the exploded view eased open or closed. Shared by the desktop view and VR.
+ */
+export function ArmViewRig({
+  armRoot,
+  links,
+  joints,
+  endEffector,
+  view,
+}: {
+  armRoot: THREE.Object3D;
+  links: ArmLink[];
+  joints: THREE.Object3D[];
+  endEffector: THREE.Object3D | null;
+  view: ArmView;
+}) {
+  const amountRef = useRef(0);
+  // Measured once, while the arm is still assembled; the same for every pose.
+  const size = useMemo(() => measureArmSize(armRoot, links.flatMap((link) => link.meshes)), [armRoot, links]);
+  const hierarchy = useMemo(
+    () => (endEffector && !joints.includes(endEffector) ? [...joints, endEffector] : joints),
+    [endEffector, joints],
+  );
+
+  useEffect(() => {
+    links.forEach((link) => {
+      const display = getLinkDisplay(view, link.name);
+      applyLinkDisplay(link, view.xray && display === 'solid' ? 'ghost' : display);
+    });
+  }, [links, view.links, view.xray]);
+
+  // Put back together and fully shown when the arm goes away or its links are rebuilt.
+  useEffect(
+    () => () => {
+      links.forEach((link) => applyLinkDisplay(link, 'solid'));
+      applyExplode(armRoot, links, joints, 0, 0);
+    },
+    [armRoot, joints, links],
+  );
+
+  useFrame((_, delta) => {
+    const target = view.exploded ? 1 : 0;
+    const previous = amountRef.current;
+    if (previous === target && target === 0) {
+      return;
+    }
+
+    const amount = THREE.MathUtils.damp(previous, target, EXPLODE_RATE, Math.min(delta, 0.1));
+    amountRef.current = Math.abs(amount - target) < 1e-3 ? target : amount;
+    applyExplode(armRoot, links, joints, size * view.spread, amountRef.current);
+  });
+
+  return view.xray ? <HierarchyOverlay armRoot={armRoot} joints={hierarchy} /> : null;
+}
+
+export function VRViewControls({
+  armRoot,
+  links,
+  view,
+  onChange,
+}: {
+  armRoot: THREE.Object3D | null;
+  links: ArmLink[];
+  view: ArmView;
+  onChange: (view: ArmView) => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isPresenting = useXRPresenting();
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [-1.15, 1.2, 0]);
+    }
+  });
+
+  if (!isPresenting) {
+    return null;
+  }
+
+  const height = 0.19 + (links.length + 1) * 0.07;
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0, -height / 2 + 0.05, -0.005]}>
+        <planeGeometry args={[0.48, height]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text position={[0, 0, 0]} color="#eaf2ff" fontSize={0.024} anchorX="center" anchorY="middle">
+        View
+      </Text>
+      <XRPanelButton
+        position={[-0.1, -0.07, 0]}
+        width={0.19}
+        label="Exploded"
+        active={view.exploded}
+        onPress={() => onChange({ ...view, exploded: !view.exploded })}
+      />
+      <XRPanelButton
+        position={[0.1, -0.07, 0]}
+        width={0.19}
+        label="X-ray"
+        active={view.xray}
+        onPress={() => onChange({ ...view, xray: !view.xray })}
+      />
+      {links.map((link, index) => {
+        const display = getLinkDisplay(view, link.name);
+        return (
+          <XRPanelButton
+            key={link.object.uuid}
+            position={[0, -0.14 - index * 0.07, 0]}
+            width={0.4}
+            label={`${link.name}: ${DISPLAY_LABELS[display].toLowerCase()}`}
+            active={display !== 'solid'}
+            onPress={() => onChange(setLinkDisplay(view, link.name, NEXT_LINK_DISPLAY[display]))}
+          />
+        );
+      })}
+      <XRPanelButton
+        position={[0, -0.14 - links.length * 0.07, 0]}
+        width={0.4}
+        label="Show all, put back together"
+        onPress={() => onChange(DEFAULT_ARM_VIEW)}
+      />
+    </group>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import FollowArm from './FollowArm.tsx';
+import XRPanelButton from './XRPanelButton.tsx';
+import { sampleWorkspace, type WorkspaceDof } from './workspace.ts';
+import { placeBesideArm, useXRPresenting } from './xrUi.ts';
+import { buttonStyle, panelStyle } from './panelStyles.ts';
+
+export type WorkspaceView = {
+  // The reachable volume with every joint swept together.
+  all: boolean;
+  // Joints whose own sweep is drawn on its own, the rest of the arm held where it is.
+  joints: string[];
+};
+
+export const HIDDEN_WORKSPACE: WorkspaceView = { all: false, joints: [] };
+
+const ALL_COLOR = '#6bb7ff';
+const JOINT_COLORS = ['#ffb347', '#b388ff', '#6bff9c', '#ff6b6b', '#ffd86b', '#6bffe8'];
+// Each joint's sweep is cheap enough to redo a few times a second, so it tracks the rest of the arm as it moves.
+const JOINT_RESAMPLE_INTERVAL = 0.25;
+
+export function getJointColor(index: number): string {
+  return JOINT_COLORS[index % JOINT_COLORS.length];
+}
+
+function toggleJoint(view: WorkspaceView, name: string): WorkspaceView {
+  return {
+    ...view,
+    joints: view.joints.includes(name) ? view.joints.filter((joint) => joint !== name) : [...view.joints, name],
+  };
+}
+
+export default function WorkspacePanel({
+  joints,
+  view,
+  onChange,
+}: {
+  joints: THREE.Object3D[];
+  view: WorkspaceView;
+  onChange: (view: WorkspaceView) => void;
+}) {
+  const swatch = (color: string) => (
+    <span style={{ width: '10px', height: '10px', borderRadius: '50%', background: color, display: 'inline-block' }} />
+  );
+
+  return (
+    <div style={{ ...panelStyle, width: '260px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}>
+        <div style={{ fontWeight: 700, fontSize: '14px' }}>Workspace</div>
+        <button type="button" onClick={() => onChange(HIDDEN_WORKSPACE)} style={buttonStyle}>
+          Hide all
+        </button>
+      </div>
+      <div style={{ opacity: 0.7, marginBottom: '8px' }}>
+        Where the tool tip can reach, sampling each joint over its limits or a full turn when unlimited.
+      </div>
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <input type="checkbox" checked={view.all} onChange={() => onChange({ ...view, all: !view.all })} />
+        {swatch(ALL_COLOR)}
+        All joints together
+      </label>
+      {joints.length === 0 && <div style={{ opacity: 0.7, marginTop: '6px' }}>No movable joints in this model.</div>}
+      {joints.map((joint, index) => (
+        <label key={joint.uuid} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '6px' }}>
+          <input
+            type="checkbox"
+            checked={view.joints.includes(joint.name)}
+            onChange={() => onChange(toggleJoint(view, joint.name))}
+          />
+          {swatch(getJointColor(index))}
+          {joint.name || '(unnamed)'} only
+        </label>
+      ))}
+    </div>
+  );
+}
+
+function CloudPoints({ geometry, color }: { geometry: THREE.BufferGeometry; color: string }) {
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <points geometry={geometry} frustumCulled={false}>
+      <pointsMaterial color={color} size={0.012} sizeAttenuation transparent opacity={0.8} depthWrite={false} />
+    </points>
+  );
+}
+
+function toGeometry(positions: Float32Array): THREE.BufferGeometry {
+  return new THREE.BufferGeometry().setAttribute('position', new THREE.BufferAttribute(positions, 3));
+}
+
+function JointSweep({
+  armRoot,
+  endEffector,
+  dofs,
+  color,
+}: {
+  armRoot: THREE.Object3D;
+  endEffector: THREE.Object3D;
+  dofs: WorkspaceDof[];
+  color: string;
+}) {
+  const elapsedRef = useRef(0);
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+
+  // Sampling poses the live arm (and puts it back), so it's done here rather than while rendering.
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setGeometry(toGeometry(sampleWorkspace(armRoot, endEffector, dofs, 512)));
+  }, [armRoot, dofs, endEffector]);
+
+  useFrame((_, delta) => {
+    elapsedRef.current += delta;
+    if (!geometry || elapsedRef.current < JOINT_RESAMPLE_INTERVAL) {
+      return;
+    }
+    elapsedRef.current = 0;
+
+    const attribute = geometry.getAttribute('position') as THREE.BufferAttribute;
+    attribute.copyArray(sampleWorkspace(armRoot, endEffector, dofs, 512));
+    attribute.needsUpdate = true;
+  });
+
+  return geometry && <CloudPoints geometry={geometry} color={color} />;
+}
+
+/** Draws the sampled workspace around the arm, in the arm's own frame, for desktop and VR alike. */
+export function WorkspaceCloud({
+  armRoot,
+  endEffector,
+  joints,
+  dofs,
+  view,
+}: {
+  armRoot: THREE.Object3D | null;
+  endEffector: THREE.Object3D | null;
+  joints: THREE.Object3D[];
+  dofs: WorkspaceDof[];
+  view: WorkspaceView;
+}) {
+  const [allGeometry, setAllGeometry] = useState<THREE.BufferGeometry | null>(null);
+
+  // Every joint is swept, so the volume only changes with the limits, not with the current pose. Like each joint's
+  // sweep, it's sampled in an effect since it moves the live arm.
+  useEffect(() => {
+    setAllGeometry(view.all && armRoot && endEffector ? toGeometry(sampleWorkspace(armRoot, endEffector, dofs)) : null);
+  }, [armRoot, dofs, endEffector, view.all]);
+
+  const jointDofs = useMemo(
+    () =>
+      joints.map((joint) => ({
+        joint,
+        dofs: view.joints.includes(joint.name) ? dofs.filter((dof) => dof.joint === joint) : [],
+      })),
+    [dofs, joints, view.joints],
+  );
+
+  if (!armRoot || !endEffector) {
+    return null;
+  }
+
+  return (
+    <FollowArm armRoot={armRoot}>
+      {allGeometry && <CloudPoints geometry={allGeometry} color={ALL_COLOR} />}
+      {jointDofs.map(
+        ({ joint, dofs: sweep }, index) =>
+          sweep.length > 0 && (
+            <JointSweep
+              key={joint.uuid}
+              armRoot={armRoot}
+              endEffector={endEffector}
+              dofs={sweep}
+              color={getJointColor(index)}
+            />
+          ),
+      )}
+    </FollowArm>
+  );
+}
+
+export function VRWorkspaceControls({
+  armRoot,
+  joints,
+  view,
+  onChange,
+}: {
+  armRoot: THREE.Object3D | null;
+  joints: THREE.Object3D[];
+  view: WorkspaceView;
+  onChange: (view: WorkspaceView) => void;
+}) {
+  const groupRef = useRef<THREE.Group>(null);
+  const isPresenting = useXRPresenting();
+
+  useFrame(() => {
+    if (groupRef.current && armRoot) {
+      placeBesideArm(groupRef.current, armRoot, [-0.6, 1.0, 0]);
+    }
+  });
+
+  if (!isPresenting) {
+    return null;
+  }
+
+  const height = 0.12 + (joints.length + 1) * 0.07;
+
+  return (
+    <group ref={groupRef}>
+      <mesh position={[0, -height / 2 + 0.05, -0.005]}>
+        <planeGeometry args={[0.48, height]} />
+        <meshBasicMaterial color="#0a1428" transparent opacity={0.75} />
+      </mesh>
+      <Text position={[0, 0, 0]} color="#eaf2ff" fontSize={0.024} anchorX="center" anchorY="middle">
+        Workspace
+      </Text>
+      <XRPanelButton
+        position={[0, -0.07, 0]}
+        width={0.4}
+        label={`All joints: ${view.all ? 'on' : 'off'}`}
+        active={view.all}
+        onPress={() => onChange({ ...view, all: !view.all })}
+      />
+      {joints.map((joint, index) => {
+        const shown = view.joints.includes(joint.name);
+        return (
+          <XRPanelButton
+            key={joint.uuid}
+            position={[0, -0.14 - index * 0.07, 0]}
+            width={0.4}
+            label={`${joint.name || 'joint'}: ${shown ? 'on' : 'off'}`}
+            active={shown}
+            onPress={() => onChange(toggleJoint(view, joint.name))}
+          />
+        );
+      })}
+    </group>
+  );
+}
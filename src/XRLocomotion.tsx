@@ -0,0 +1,248 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useXRMode } from './xrUi.ts';
+
+// Metres per second at full stick.
+const MOVE_SPEED = 1.5;
+const DEAD_ZONE = 0.15;
+const SNAP_TURN = THREE.MathUtils.degToRad(30);
+// A stick has to pass PRESS to turn or start aiming, and come back inside RELEASE before it does so again.
+const STICK_PRESS = 0.7;
+const STICK_RELEASE = 0.3;
+// The teleport arc: launch speed along the controller's ray, gravity, and how finely and how far it is traced.
+const ARC_SPEED = 7;
+const ARC_GRAVITY = -9.8;
+const ARC_STEP = 0.03;
+const ARC_POINTS = 64;
+const FLOOR_Y = 0;
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+const tempHeadPos = new THREE.Vector3();
+const tempForward = new THREE.Vector3();
+const tempRight = new THREE.Vector3();
+const tempStick = new THREE.Vector2();
+const tempArcOrigin = new THREE.Vector3();
+const tempArcQuat = new THREE.Quaternion();
+const tempArcVelocity = new THREE.Vector3();
+const tempArcPoint = new THREE.Vector3();
+const tempArcPrevious = new THREE.Vector3();
+const tempOffsetPos = new THREE.Vector3();
+const tempOffsetQuat = new THREE.Quaternion();
+
+type StickState = { turnReady: boolean; aiming: boolean };
+
+function readStick(controller: THREE.Object3D, target: THREE.Vector2): THREE.Vector2 | null {
+  const axes = (controller.userData.inputSource as XRInputSource | undefined)?.gamepad?.axes;
+  // xr-standard puts the thumbstick on axes 2 and 3; a touchpad-only controller may have just 0 and 1.
+  if (!axes || axes.length < 2) {
+    return null;
+  }
+  return axes.length >= 4 ? target.set(axes[2], axes[3]) : target.set(axes[0], axes[1]);
+}
+
+/**
+ * Traces the teleport arc from `controller` into `line` and returns where it meets the floor, or null if it runs out
+ * of points first. The line's draw range is cut to the part that was traced.
+ */
+function traceArc(controller: THREE.Object3D, line: THREE.Line, landing: THREE.Vector3): THREE.Vector3 | null {
+  const positions = line.geometry.getAttribute('position') as THREE.BufferAttribute;
+  controller.getWorldPosition(tempArcOrigin);
+  tempArcVelocity.set(0, 0, -1).applyQuaternion(controller.getWorldQuaternion(tempArcQuat)).multiplyScalar(ARC_SPEED);
+  tempArcPrevious.copy(tempArcOrigin);
+  positions.setXYZ(0, tempArcOrigin.x, tempArcOrigin.y, tempArcOrigin.z);
+
+  for (let index = 1; index < ARC_POINTS; index += 1) {
+    const t = index * ARC_STEP;
+    tempArcPoint.copy(tempArcOrigin).addScaledVector(tempArcVelocity, t);
+    tempArcPoint.y += 0.5 * ARC_GRAVITY * t * t;
+
+    if (tempArcPoint.y <= FLOOR_Y) {
+      // Cut the last segment where it crosses the floor.
+      const alpha = (tempArcPrevious.y - FLOOR_Y) / Math.max(tempArcPrevious.y - tempArcPoint.y, 1e-6);
+      landing.copy(tempArcPrevious).lerp(tempArcPoint, alpha);
+      positions.setXYZ(index, landing.x, landing.y, landing.z);
+      positions.needsUpdate = true;
+      line.geometry.setDrawRange(0, index + 1);
+      return landing;
+    }
+
+    positions.setXYZ(index, tempArcPoint.x, tempArcPoint.y, tempArcPoint.z);
+    tempArcPrevious.copy(tempArcPoint);
+  }
+
+  positions.needsUpdate = true;
+  line.geometry.setDrawRange(0, ARC_POINTS);
+  return null;
+}
+
+/**
+ * Walking around in VR without walking: the left stick glides, the right stick snap-turns sideways, and pushing it
+ * forward aims a teleport arc that jumps to where it lands on the floor once the stick is let go. All of it moves the
+ * XR reference space, so the arms and everything else stay where they are in the scene. Off in AR, where the room
+ * itself is the scene.
+ */
+export default function XRLocomotion() {
+  const { gl } = useThree();
+  const mode = useXRMode();
+  // The session's own reference space, and where the user's tracked space stands in the scene relative to it.
+  const baseSpaceRef = useRef<XRReferenceSpace | null>(null);
+  const rigRef = useRef({ position: new THREE.Vector3(), yaw: 0 });
+  const sticksRef = useRef<StickState[]>([]);
+  const landingRef = useRef(new THREE.Vector3());
+
+  const arc = useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(ARC_POINTS * 3), 3));
+    const line = new THREE.Line(geometry, new THREE.LineBasicMaterial({ color: '#6bb7ff' }));
+    // The positions are rewritten every frame in world space; a stale bounding sphere must not cull them.
+    line.frustumCulled = false;
+    line.visible = false;
+    return line;
+  }, []);
+
+  const marker = useMemo(() => {
+    const mesh = new THREE.Mesh(
+      new THREE.RingGeometry(0.18, 0.22, 32).rotateX(-Math.PI / 2),
+      new THREE.MeshBasicMaterial({ color: '#6bb7ff' }),
+    );
+    mesh.visible = false;
+    return mesh;
+  }, []);
+
+  useEffect(
+    () => () => {
+      [arc, marker].forEach((object) => {
+        object.geometry.dispose();
+        (object.material as THREE.Material).dispose();
+      });
+    },
+    [arc, marker],
+  );
+
+  useEffect(() => {
+    const reset = () => {
+      baseSpaceRef.current = null;
+      rigRef.current.position.set(0, 0, 0);
+      rigRef.current.yaw = 0;
+      sticksRef.current = [];
+    };
+
+    gl.xr.addEventListener('sessionstart', reset);
+    gl.xr.addEventListener('sessionend', reset);
+
+    return () => {
+      gl.xr.removeEventListener('sessionstart', reset);
+      gl.xr.removeEventListener('sessionend', reset);
+    };
+  }, [gl]);
+
+  // The offset space's origin is the inverse of the rig: moving the user forward slides the world back.
+  const applyRig = () => {
+    const base = (baseSpaceRef.current ??= gl.xr.getReferenceSpace());
+    if (!base) {
+      return;
+    }
+
+    const { position, yaw } = rigRef.current;
+    tempOffsetQuat.setFromAxisAngle(WORLD_UP, -yaw);
+    tempOffsetPos.copy(position).applyQuaternion(tempOffsetQuat).negate();
+    gl.xr.setReferenceSpace(
+      base.getOffsetReferenceSpace(
+        new XRRigidTransform(
+          { x: tempOffsetPos.x, y: tempOffsetPos.y, z: tempOffsetPos.z },
+          { x: tempOffsetQuat.x, y: tempOffsetQuat.y, z: tempOffsetQuat.z, w: tempOffsetQuat.w },
+        ),
+      ),
+    );
+  };
+
+  useFrame((_, delta) => {
+    arc.visible = false;
+    marker.visible = false;
+    if (mode !== 'vr') {
+      return;
+    }
+
+    const rig = rigRef.current;
+    const xrCamera = gl.xr.getCamera();
+    xrCamera.getWorldPosition(tempHeadPos);
+    xrCamera.getWorldDirection(tempForward).setY(0);
+    if (tempForward.lengthSq() < 1e-6) {
+      tempForward.set(0, 0, -1);
+    }
+    tempForward.normalize();
+    tempRight.crossVectors(tempForward, WORLD_UP);
+    let moved = false;
+
+    for (let index = 0; index < 2; index += 1) {
+      const controller = gl.xr.getController(index);
+      const stick = readStick(controller, tempStick);
+      const state = (sticksRef.current[index] ??= { turnReady: true, aiming: false });
+      if (!stick) {
+        continue;
+      }
+
+      if (controller.userData.handedness === 'left') {
+        if (stick.length() > DEAD_ZONE) {
+          const step = MOVE_SPEED * Math.min(delta, 0.1);
+          rig.position.addScaledVector(tempForward, -stick.y * step).addScaledVector(tempRight, stick.x * step);
+          moved = true;
+        }
+        continue;
+      }
+
+      // Right stick sideways: turn in steps about the head, so the user stays standing where they are.
+      if (state.turnReady && !state.aiming && Math.abs(stick.x) > STICK_PRESS) {
+        const turn = -Math.sign(stick.x) * SNAP_TURN;
+        rig.position.sub(tempHeadPos).applyAxisAngle(WORLD_UP, turn).add(tempHeadPos);
+        rig.yaw += turn;
+        state.turnReady = false;
+        moved = true;
+      } else if (Math.abs(stick.x) < STICK_RELEASE) {
+        state.turnReady = true;
+      }
+
+      // Right stick forward: aim. Letting it go jumps there, keeping the head's offset from the tracked origin.
+      if (!state.aiming && stick.y < -STICK_PRESS) {
+        state.aiming = true;
+      }
+      if (!state.aiming) {
+        continue;
+      }
+
+      const landing = traceArc(controller, arc, landingRef.current);
+      if (stick.length() > STICK_RELEASE) {
+        arc.visible = true;
+        (arc.material as THREE.LineBasicMaterial).color.set(landing ? '#6bb7ff' : '#ff3b3b');
+        marker.visible = Boolean(landing);
+        if (landing) {
+          marker.position.copy(landing).setY(FLOOR_Y + 0.005);
+        }
+        continue;
+      }
+
+      state.aiming = false;
+      if (landing) {
+        rig.position.x += landing.x - tempHeadPos.x;
+        rig.position.z += landing.z - tempHeadPos.z;
+        moved = true;
+      }
+    }
+
+    if (moved) {
+      applyRig();
+    }
+  });
+
+  if (mode !== 'vr') {
+    return null;
+  }
+
+  return (
+    <>
+      <primitive object={arc} />
+      <primitive object={marker} />
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from 'react';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { registerXRButton, type XRButtonHandler } from './xrUi.ts';
+
+// A flat labelled button for in-VR panels, pressed by pointing a controller ray at it and pulling the trigger.
+export default function XRPanelButton({
+  position,
+  width,
+  label,
+  active = false,
+  onPress,
+}: {
+  position: THREE.Vector3Tuple;
+  width: number;
+  label: string;
+  active?: boolean;
+  onPress: XRButtonHandler;
+}) {
+  const meshRef = useRef<THREE.Mesh>(null);
+
+  useEffect(() => {
+    if (!meshRef.current) {
+      return;
+    }
+
+    return registerXRButton(meshRef.current, onPress);
+  }, [onPress]);
+
+  return (
+    <group position={position}>
+      <mesh ref={meshRef}>
+        <planeGeometry args={[width, 0.06]} />
+        <meshBasicMaterial color={active ? '#2f6db3' : '#1b3f6a'} />
+      </mesh>
+      <Text position={[0, 0, 0.002]} color="#ffffff" fontSize={0.025} anchorX="center" anchorY="middle">
+        {label}
+      </Text>
+    </group>
+  );
+}
@@ -0,0 +1,210 @@
+import * as THREE from 'three';
+
+export type LinkDisplay = 'solid' | 'ghost' | 'hidden';
+
+export type ArmView = {
+  exploded: boolean;
+  // How far apart an exploded view pushes neighbouring links, as a fraction of the arm's size.
+  spread: number;
+  // Every link see-through, with the joint hierarchy drawn over it.
+  xray: boolean;
+  // Keyed by link name; links not listed are solid.
+  links: Record<string, LinkDisplay>;
+};
+
+// One rigid part of an arm: the meshes a bone or URDF link carries, and the joint that moves them.
+export type ArmLink = {
+  name: string;
+  object: THREE.Object3D;
+  meshes: THREE.Mesh[];
+  // Null for the base, which no joint moves.
+  joint: THREE.Object3D | null;
+};
+
+export const DEFAULT_ARM_VIEW: ArmView = { exploded: false, spread: 0.35, xray: false, links: {} };
+export const NEXT_LINK_DISPLAY: Record<LinkDisplay, LinkDisplay> = { solid: 'ghost', ghost: 'hidden', hidden: 'solid' };
+
+const GHOST_OPACITY = 0.2;
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+const tempRootInverse = new THREE.Matrix4();
+const tempToParent = new THREE.Matrix4();
+const tempJointPos = new THREE.Vector3();
+const tempParentPos = new THREE.Vector3();
+const tempOrigin = new THREE.Vector3();
+const tempLocalOffset = new THREE.Vector3();
+const tempBox = new THREE.Box3();
+
+// A URDF mesh sits in a visual frame under its link; a GLB mesh hangs straight off its bone.
+function findLinkObject(mesh: THREE.Mesh): THREE.Object3D {
+  for (let current = mesh.parent; current; current = current.parent) {
+    if (current.userData.urdfLink) {
+      return current;
+    }
+  }
+  return mesh.parent ?? mesh;
+}
+
+function findOwningJoint(object: THREE.Object3D, joints: Set<THREE.Object3D>): THREE.Object3D | null {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (joints.has(current)) {
+      return current;
+    }
+  }
+  return null;
+}
+
+/** Groups an arm's meshes into links, in the order the meshes were found. */
+export function getArmLinks(meshes: THREE.Mesh[], joints: THREE.Object3D[]): ArmLink[] {
+  const jointSet = new Set(joints);
+  const links = new Map<THREE.Object3D, ArmLink>();
+
+  meshes.forEach((mesh) => {
+    const object = findLinkObject(mesh);
+    const link = links.get(object);
+    if (link) {
+      link.meshes.push(mesh);
+      return;
+    }
+
+    links.set(object, {
+      name: object.name || mesh.name || 'link',
+      object,
+      meshes: [mesh],
+      joint: findOwningJoint(object, jointSet),
+    });
+  });
+
+  return [...links.values()];
+}
+
+export function getLinkDisplay(view: ArmView, name: string): LinkDisplay {
+  return view.links[name] ?? 'solid';
+}
+
+export function setLinkDisplay(view: ArmView, name: string, display: LinkDisplay): ArmView {
+  const links = Object.fromEntries(Object.entries(view.links).filter(([link]) => link !== name));
+  return { ...view, links: display === 'solid' ? links : { ...links, [name]: display } };
+}
+
+/**
+ * Shows a link solid, see-through or not at all. A hidden link is also taken off the default layer, so picking rays
+ * pass through it to whatever is behind. Materials are cloned per mesh by `ArmModel`, so this leaves other links
+ * (and other arms) alone.
+ */
+export function applyLinkDisplay(link: ArmLink, display: LinkDisplay) {
+  link.meshes.forEach((mesh) => {
+    mesh.visible = display !== 'hidden';
+    if (display === 'hidden') {
+      mesh.layers.disable(0);
+    } else {
+      mesh.layers.enable(0);
+    }
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach((material) => {
+      material.userData.baseOpacity ??= material.opacity;
+      material.userData.baseTransparent ??= material.transparent;
+      material.userData.baseDepthWrite ??= material.depthWrite;
+
+      const ghost = display === 'ghost';
+      const transparent = ghost || (material.userData.baseTransparent as boolean);
+      if (material.transparent !== transparent) {
+        // Switching blending needs the program rebuilt.
+        material.needsUpdate = true;
+      }
+      material.transparent = transparent;
+      material.opacity = (material.userData.baseOpacity as number) * (ghost ? GHOST_OPACITY : 1);
+      material.depthWrite = ghost ? false : (material.userData.baseDepthWrite as boolean);
+    });
+  });
+}
+
+// The arm's size in its root's frame, from the meshes as they stand now; the exploded view spreads links by it.
+export function measureArmSize(root: THREE.Object3D, meshes: THREE.Mesh[]): number {
+  root.updateMatrixWorld(true);
+  tempRootInverse.copy(root.matrixWorld).invert();
+
+  const box = new THREE.Box3();
+  meshes.forEach((mesh) => {
+    if (!mesh.geometry.boundingBox) {
+      mesh.geometry.computeBoundingBox();
+    }
+    tempToParent.multiplyMatrices(tempRootInverse, mesh.matrixWorld);
+    box.union(tempBox.copy(mesh.geometry.boundingBox!).applyMatrix4(tempToParent));
+  });
+
+  return box.isEmpty() ? 1 : box.getSize(tempOrigin).length() / 2;
+}
+
+/**
+ * Where each joint's links go in an exploded view, in the root's frame: pushed `gap` further out than the joint
+ * above, along the line from that joint (or the base) to this one, so every link moves apart from its neighbours
+ * along the chain. Follows the current pose; `tempRootInverse` must hold the root's inverse world matrix.
+ */
+function getExplodeOffsets(joints: THREE.Object3D[], gap: number): Map<THREE.Object3D, THREE.Vector3> {
+  const jointSet = new Set(joints);
+  const offsets = new Map<THREE.Object3D, THREE.Vector3>();
+  const directions = new Map<THREE.Object3D, THREE.Vector3>();
+
+  const visit = (joint: THREE.Object3D): THREE.Vector3 => {
+    const known = offsets.get(joint);
+    if (known) {
+      return known;
+    }
+
+    const parent = joint.parent ? findOwningJoint(joint.parent, jointSet) : null;
+    const parentOffset = parent ? visit(parent) : tempOrigin.set(0, 0, 0);
+    joint.getWorldPosition(tempJointPos).applyMatrix4(tempRootInverse);
+    if (parent) {
+      parent.getWorldPosition(tempParentPos).applyMatrix4(tempRootInverse);
+    } else {
+      tempParentPos.set(0, 0, 0);
+    }
+
+    // Joints that share an origin (a wrist's pitch and roll, say) carry on in their parent's direction.
+    const direction = tempJointPos.sub(tempParentPos);
+    const fallback = (parent && directions.get(parent)) ?? WORLD_UP;
+    const unit = direction.lengthSq() > 1e-10 ? direction.clone().normalize() : fallback.clone();
+
+    const offset = parentOffset.clone().addScaledVector(unit, gap);
+    directions.set(joint, unit);
+    offsets.set(joint, offset);
+    return offset;
+  };
+
+  joints.forEach(visit);
+  return offsets;
+}
+
+/**
+ * Moves every link's meshes out from where the model put them by `amount` (0 together, 1 fully exploded) of the
+ * spread. The joints themselves stay put, so dragging, IK and the readouts carry on as if the arm were assembled.
+ */
+export function applyExplode(
+  root: THREE.Object3D,
+  links: ArmLink[],
+  joints: THREE.Object3D[],
+  gap: number,
+  amount: number,
+) {
+  root.updateMatrixWorld(true);
+  tempRootInverse.copy(root.matrixWorld).invert();
+  const offsets = amount > 0 ? getExplodeOffsets(joints, gap * amount) : null;
+
+  links.forEach((link) => {
+    const offset = link.joint && offsets?.get(link.joint);
+    link.meshes.forEach((mesh) => {
+      const base = (mesh.userData.explodeBase ??= mesh.position.clone()) as THREE.Vector3;
+      if (!offset || !mesh.parent) {
+        mesh.position.copy(base);
+        return;
+      }
+
+      // The root-frame offset, as seen from the mesh's parent.
+      tempToParent.copy(mesh.parent.matrixWorld).invert().multiply(root.matrixWorld);
+      tempLocalOffset.copy(offset).applyMatrix4(tempToParent).sub(tempOrigin.set(0, 0, 0).applyMatrix4(tempToParent));
+      mesh.position.copy(base).add(tempLocalOffset);
+    });
+  });
+}
@@ -0,0 +1,45 @@
+import type * as THREE from 'three';
+
+/** One arm standing in the scene. Several can share a model; each keeps its own pose and joint edits. */
+export type ArmInstance = {
+  id: string;
+  modelId: string;
+  // Where the arm first stands. Moving it afterwards (squeeze, fist, AR placement) leaves this alone.
+  position: THREE.Vector3Tuple;
+};
+
+// Far enough apart that two of the catalog arms at full reach don't overlap.
+const ARM_SPACING = 1.2;
+const ROW_DEPTH = -1.4;
+
+// The first arm stands in the middle of the row, later ones alternately to its right and left.
+function getFreeSlot(arms: ArmInstance[]): THREE.Vector3Tuple {
+  for (let slot = 0; ; slot += 1) {
+    const x = (slot % 2 === 1 ? 1 : -1) * Math.ceil(slot / 2) * ARM_SPACING || 0;
+    if (!arms.some((arm) => Math.abs(arm.position[0] - x) < ARM_SPACING / 2)) {
+      return [x, 0, ROW_DEPTH];
+    }
+  }
+}
+
+export function createArmInstance(modelId: string, arms: ArmInstance[]): ArmInstance {
+  return {
+    id: `arm-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    modelId,
+    position: getFreeSlot(arms),
+  };
+}
+
+// Model titles, numbered where the same model stands in the scene more than once.
+export function getArmLabels(arms: ArmInstance[], getTitle: (modelId: string) => string): Record<string, string> {
+  const seen: Record<string, number> = {};
+
+  return Object.fromEntries(
+    arms.map((arm) => {
+      const title = getTitle(arm.modelId);
+      const duplicates = arms.filter((other) => other.modelId === arm.modelId).length;
+      seen[arm.modelId] = (seen[arm.modelId] ?? 0) + 1;
+      return [arm.id, duplicates > 1 ? `${title} ${seen[arm.modelId]}` : title];
+    }),
+  );
+}
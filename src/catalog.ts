@@ -0,0 +1,105 @@
+import { parseJointConstraints, type JointConstraint } from './joints.ts';
+import { parseLinkage, type LinkageDefinition } from './linkage.ts';
+
+export type ModelFormat = 'glb' | 'urdf';
+
+export type ModelOption = {
+  id: string;
+  title: string;
+  description: string;
+  modelPath: string;
+  // Taken from the model path's extension: a skinned GLB or a URDF robot description.
+  format: ModelFormat;
+  // World size of one model unit. GLB arms are authored large; URDF robots are in metres and show at real size.
+  scale: number;
+  // URDF only: `package://` name -> base URL its meshes are served from.
+  packages?: Record<string, string>;
+  // URDF opened from disk: the mesh files picked with it, relative path -> object URL.
+  files?: Record<string, string>;
+  thumbnail: string;
+  // URL of the model's lesson file, if it has guided lessons.
+  lessons?: string;
+  // Keyed by node name. Rotation limits are authored in degrees, slide limits in model units. A bone's own
+  // `extras.joint` in the GLB overrides its entry here.
+  joints: Record<string, JointConstraint>;
+  // Closed-chain mechanisms only: the joint the user drives and the pins that close the loops the tree leaves open.
+  linkage?: LinkageDefinition;
+};
+
+export const CATALOG_URL = '/models/manifest.json';
+export const DEFAULT_GLB_SCALE = 0.08;
+
+export function getModelFormat(path: string): ModelFormat {
+  return /\.urdf$/i.test(path.split(/[?#]/)[0]) ? 'urdf' : 'glb';
+}
+
+function readString(entry: Record<string, unknown>, key: string, index: number, fallback?: string): string {
+  const value = entry[key];
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (fallback !== undefined) {
+    return fallback;
+  }
+
+  throw new Error(`Model catalog entry ${index} is missing "${key}"`);
+}
+
+function parseModelOption(raw: unknown, index: number): ModelOption {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Model catalog entry ${index} is not an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const id = readString(entry, 'id', index);
+  const modelPath = readString(entry, 'modelPath', index);
+  const format = getModelFormat(modelPath);
+  const packages =
+    entry.packages && typeof entry.packages === 'object'
+      ? Object.fromEntries(
+          Object.entries(entry.packages).filter((pair): pair is [string, string] => typeof pair[1] === 'string'),
+        )
+      : undefined;
+
+  return {
+    id,
+    title: readString(entry, 'title', index, id),
+    description: readString(entry, 'description', index, ''),
+    modelPath,
+    format,
+    scale: typeof entry.scale === 'number' && entry.scale > 0 ? entry.scale : format === 'urdf' ? 1 : DEFAULT_GLB_SCALE,
+    packages,
+    thumbnail: readString(entry, 'thumbnail', index, ''),
+    lessons: typeof entry.lessons === 'string' && entry.lessons.length > 0 ? entry.lessons : undefined,
+    joints: parseJointConstraints(entry.joints),
+    linkage: entry.linkage ? parseLinkage(entry.linkage, `Model catalog entry ${index}`) : undefined,
+  };
+}
+
+/**
+ * Loads the arm catalog shown on the selection screen. Adding an arm means dropping its GLB and thumbnail into
+ * `public/` and listing it in the manifest; bones may also carry their own limits as `extras.joint` in the GLB.
+ * A `.urdf` model path loads a robot description instead, with its meshes resolved next to it or via `packages`.
+ */
+export async function loadCatalog(url = CATALOG_URL): Promise<ModelOption[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load the model catalog (${response.status} ${response.statusText})`);
+  }
+
+  const manifest = (await response.json()) as { models?: unknown };
+  if (!Array.isArray(manifest.models)) {
+    throw new Error('The model catalog has no "models" list');
+  }
+
+  const models = manifest.models.map(parseModelOption);
+  const seen = new Set<string>();
+  models.forEach((model) => {
+    if (seen.has(model.id)) {
+      throw new Error(`The model catalog lists "${model.id}" twice`);
+    }
+    seen.add(model.id);
+  });
+
+  return models;
+}
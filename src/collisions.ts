@@ -0,0 +1,177 @@
+import * as THREE from 'three';
+import { OBB } from 'three/examples/jsm/math/OBB.js';
+
+export type CollisionMode = 'block' | 'flag' | 'off';
+
+type CollisionLink = {
+  mesh: THREE.Mesh;
+  localBox: OBB;
+  worldBox: OBB;
+  // The mesh's outermost vertices in each of 26 directions, standing in for its hull in the floor check.
+  hullPoints: THREE.Vector3[];
+};
+
+export type CollisionWorld = {
+  // The arm's wrapper; its local y = 0 plane is the ground `ArmModel` stands the model on.
+  root: THREE.Object3D;
+  links: CollisionLink[];
+  // Link pairs tested against each other. Pairs that already touch in the rest pose, such as neighbours meeting
+  // at a joint, are left out so only new contact is reported.
+  pairs: Array<[number, number]>;
+  floorTolerance: number;
+};
+
+export type CollisionReport = {
+  meshes: Set<THREE.Mesh>;
+  labels: string[];
+};
+
+const tempRootInverse = new THREE.Matrix4();
+const tempToRoot = new THREE.Matrix4();
+const tempVertex = new THREE.Vector3();
+const HIGHLIGHT_COLOR = new THREE.Color('#ff2a2a');
+
+function linkName(mesh: THREE.Mesh): string {
+  return mesh.parent?.name || mesh.name || 'link';
+}
+
+function updateWorldBoxes(world: CollisionWorld) {
+  world.root.updateMatrixWorld(true);
+  world.links.forEach((link) => {
+    link.worldBox.copy(link.localBox).applyMatrix4(link.mesh.matrixWorld);
+    // `OBB.applyMatrix4` only offsets the center by the translation; it needs the full transform.
+    link.worldBox.center.copy(link.localBox.center).applyMatrix4(link.mesh.matrixWorld);
+  });
+}
+
+// Face, edge and corner directions of a cube: enough that some hull point is close to the lowest in any orientation.
+const HULL_DIRECTIONS = [-1, 0, 1]
+  .flatMap((x) => [-1, 0, 1].flatMap((y) => [-1, 0, 1].map((z) => new THREE.Vector3(x, y, z))))
+  .filter((direction) => direction.lengthSq() > 0);
+
+// Built once per mesh, so the floor check doesn't walk every vertex several times a frame.
+function sampleHull(mesh: THREE.Mesh): THREE.Vector3[] {
+  const positions = mesh.geometry.getAttribute('position');
+  if (!positions) {
+    return [];
+  }
+
+  const best = HULL_DIRECTIONS.map(() => ({ index: -1, reach: -Infinity }));
+  for (let i = 0; i < positions.count; i += 1) {
+    tempVertex.fromBufferAttribute(positions, i);
+    HULL_DIRECTIONS.forEach((direction, d) => {
+      const reach = tempVertex.dot(direction);
+      if (reach > best[d].reach) {
+        best[d] = { index: i, reach };
+      }
+    });
+  }
+
+  const indices = new Set(best.map(({ index }) => index));
+  return [...indices].map((index) => new THREE.Vector3().fromBufferAttribute(positions, index));
+}
+
+// Lowest point of the mesh in the root's frame, from its hull vertices so a rotated box corner can't fake a floor hit.
+function lowestPoint({ mesh, hullPoints }: CollisionLink, root: THREE.Object3D): number {
+  tempToRoot.multiplyMatrices(tempRootInverse.copy(root.matrixWorld).invert(), mesh.matrixWorld);
+
+  let lowest = Infinity;
+  hullPoints.forEach((point) => {
+    lowest = Math.min(lowest, tempVertex.copy(point).applyMatrix4(tempToRoot).y);
+  });
+  return lowest;
+}
+
+/** Builds the collision shapes from the pose the arm is in now, which should be its rest pose. */
+export function createCollisionWorld(root: THREE.Object3D, meshes: THREE.Mesh[]): CollisionWorld {
+  const links = meshes.map((mesh): CollisionLink => {
+    if (!mesh.geometry.boundingBox) {
+      mesh.geometry.computeBoundingBox();
+    }
+
+    const localBox = new OBB().fromBox3(mesh.geometry.boundingBox!);
+    return { mesh, localBox, worldBox: localBox.clone(), hullPoints: sampleHull(mesh) };
+  });
+
+  const world: CollisionWorld = { root, links, pairs: [], floorTolerance: 0 };
+  updateWorldBoxes(world);
+
+  for (let i = 0; i < links.length; i += 1) {
+    for (let j = i + 1; j < links.length; j += 1) {
+      if (!links[i].worldBox.intersectsOBB(links[j].worldBox)) {
+        world.pairs.push([i, j]);
+      }
+    }
+  }
+
+  const restBox = new THREE.Box3();
+  meshes.forEach((mesh) => restBox.expandByObject(mesh));
+  world.floorTolerance = (restBox.max.y - restBox.min.y) * 0.005 / Math.max(root.getWorldScale(tempVertex).y, 1e-6);
+
+  return world;
+}
+
+export function detectCollisions(world: CollisionWorld): CollisionReport {
+  updateWorldBoxes(world);
+
+  const report: CollisionReport = { meshes: new Set(), labels: [] };
+
+  world.pairs.forEach(([i, j]) => {
+    const a = world.links[i];
+    const b = world.links[j];
+    if (a.worldBox.intersectsOBB(b.worldBox)) {
+      report.meshes.add(a.mesh);
+      report.meshes.add(b.mesh);
+      report.labels.push(`${linkName(a.mesh)} vs ${linkName(b.mesh)}`);
+    }
+  });
+
+  world.links.forEach((link) => {
+    if (lowestPoint(link, world.root) < -world.floorTolerance) {
+      report.meshes.add(link.mesh);
+      report.labels.push(`${linkName(link.mesh)} vs floor`);
+    }
+  });
+
+  return report;
+}
+
+/**
+ * Runs `move` and, if it drives a pose that was clear into a collision, puts `joints` back where they were. A pose
+ * that already collides can still move, so the user can always drag the arm back out.
+ */
+export function guardPose(world: CollisionWorld | null, joints: THREE.Object3D[], move: () => void) {
+  if (!world) {
+    move();
+    return;
+  }
+
+  const wasColliding = detectCollisions(world).meshes.size > 0;
+  const saved = joints.map((joint) => ({ position: joint.position.clone(), quaternion: joint.quaternion.clone() }));
+
+  move();
+
+  if (wasColliding || detectCollisions(world).meshes.size === 0) {
+    return;
+  }
+
+  joints.forEach((joint, index) => {
+    joint.position.copy(saved[index].position);
+    joint.quaternion.copy(saved[index].quaternion);
+  });
+}
+
+// Materials are cloned per mesh by `ArmModel`, so tinting one link leaves the others alone.
+export function highlightCollisions(world: CollisionWorld, colliding: Set<THREE.Mesh>) {
+  world.links.forEach(({ mesh }) => {
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+    materials.forEach((material) => {
+      if (!('emissive' in material) || !(material.emissive instanceof THREE.Color)) {
+        return;
+      }
+
+      material.userData.baseEmissive ??= material.emissive.clone();
+      material.emissive.copy(colliding.has(mesh) ? HIGHLIGHT_COLOR : material.userData.baseEmissive);
+    });
+  });
+}
@@ -0,0 +1,26 @@
+export function downloadJson(fileName: string, data: unknown) {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+
+  // Let the click's navigation start before the URL goes away.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export async function readJsonFile(file: File): Promise<unknown> {
+  const text = await file.text();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+}
+
+export function toFileStem(name: string): string {
+  return name.replace(/\.[^.]+$/, '').replace(/[^a-z0-9-_]+/gi, '-').toLowerCase() || 'model';
+}
@@ -0,0 +1,50 @@
+import * as THREE from 'three';
+import type { Axis } from './joints.ts';
+import type { MotionKind } from './motion.ts';
+
+// A ring (rotation) or arrow (slide) of the joint gizmo: grabbing it drives that one axis of `target` and no other.
+export type GizmoHandle = {
+  target: THREE.Object3D;
+  kind: MotionKind;
+  axis: Axis;
+};
+
+// Like in-VR panel buttons, handles register their pick meshes here and are tested before the arm.
+const handles = new Map<THREE.Object3D, GizmoHandle>();
+// The handle each pointer or controller is over, or holding, so the gizmo can light it up.
+const hovered = new Map<object, THREE.Object3D>();
+
+export function registerGizmoHandle(object: THREE.Object3D, handle: GizmoHandle): () => void {
+  handles.set(object, handle);
+
+  return () => {
+    handles.delete(object);
+    hovered.forEach((value, source) => {
+      if (value === object) {
+        hovered.delete(source);
+      }
+    });
+  };
+}
+
+export function hitGizmoHandle(raycaster: THREE.Raycaster): { hit: THREE.Intersection; handle: GizmoHandle } | null {
+  const hit = raycaster.intersectObjects([...handles.keys()], false)[0];
+  return hit ? { hit, handle: handles.get(hit.object)! } : null;
+}
+
+export function setGizmoHover(source: object, object: THREE.Object3D | null) {
+  if (object) {
+    hovered.set(source, object);
+  } else {
+    hovered.delete(source);
+  }
+}
+
+export function isGizmoHandleHovered(object: THREE.Object3D): boolean {
+  for (const value of hovered.values()) {
+    if (value === object) {
+      return true;
+    }
+  }
+  return false;
+}
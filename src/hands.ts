@@ -0,0 +1,83 @@
+import * as THREE from 'three';
+
+// A whole-hand grab is the three outer fingertips curled in toward the wrist. Open, they sit about 17 cm out; in a
+// fist about 8 cm. Separate start and end distances keep a half-closed hand from flickering between the two.
+const GRAB_START = 0.1;
+const GRAB_END = 0.12;
+// How close, in metres, a pinch has to be to a link's bounds to take hold of it directly rather than by pointing.
+export const NEAR_PINCH_RADIUS = 0.04;
+
+const CURL_TIPS = ['middle-finger-tip', 'ring-finger-tip', 'pinky-finger-tip'] as const;
+
+const tempWristPos = new THREE.Vector3();
+const tempTipPos = new THREE.Vector3();
+const tempThumbPos = new THREE.Vector3();
+const tempBox = new THREE.Box3();
+
+function isTracked(joint: THREE.Object3D | undefined): joint is THREE.Object3D {
+  return Boolean(joint?.visible);
+}
+
+/**
+ * Moves `proxy` to the point between thumb and index tips, turned like the wrist, so it can stand in for a
+ * controller as a drag source. False while the hand isn't tracked.
+ */
+export function updatePinchProxy(hand: THREE.XRHandSpace, proxy: THREE.Object3D): boolean {
+  const { wrist } = hand.joints;
+  const indexTip = hand.joints['index-finger-tip'];
+  const thumbTip = hand.joints['thumb-tip'];
+  if (!isTracked(wrist) || !isTracked(indexTip) || !isTracked(thumbTip)) {
+    return false;
+  }
+
+  indexTip.getWorldPosition(proxy.position);
+  proxy.position.add(thumbTip.getWorldPosition(tempThumbPos)).multiplyScalar(0.5);
+  wrist.getWorldQuaternion(proxy.quaternion);
+  proxy.updateMatrixWorld();
+  return true;
+}
+
+// Whether the hand is (still) making a fist; `grabbing` is the previous answer, for the hysteresis.
+export function isHandGrabbing(hand: THREE.XRHandSpace, grabbing: boolean): boolean {
+  const { wrist } = hand.joints;
+  if (!isTracked(wrist)) {
+    return false;
+  }
+
+  wrist.getWorldPosition(tempWristPos);
+  let total = 0;
+  for (const name of CURL_TIPS) {
+    const tip = hand.joints[name];
+    if (!isTracked(tip)) {
+      return false;
+    }
+    total += tip.getWorldPosition(tempTipPos).distanceTo(tempWristPos);
+  }
+
+  const reach = total / CURL_TIPS.length;
+  return reach < (grabbing ? GRAB_END : GRAB_START);
+}
+
+// The shown mesh whose world bounds come closest to `point`, if any is within `radius`.
+export function findNearestMesh(point: THREE.Vector3, meshes: THREE.Mesh[], radius: number): THREE.Mesh | null {
+  let nearest: THREE.Mesh | null = null;
+  let nearestDistance = radius;
+
+  meshes.forEach((mesh) => {
+    // A link hidden from view can't be grabbed either.
+    if (!mesh.visible) {
+      return;
+    }
+    if (!mesh.geometry.boundingBox) {
+      mesh.geometry.computeBoundingBox();
+    }
+
+    const distance = tempBox.copy(mesh.geometry.boundingBox!).applyMatrix4(mesh.matrixWorld).distanceToPoint(point);
+    if (distance <= nearestDistance) {
+      nearestDistance = distance;
+      nearest = mesh;
+    }
+  });
+
+  return nearest;
+}
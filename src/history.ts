@@ -0,0 +1,135 @@
+import * as THREE from 'three';
+import { hasPendingMotion } from './motion.ts';
+
+// Where one object stood at one moment: a joint's pose, or an arm's placement when the object is its wrapper.
+export type ObjectTransform = {
+  object: THREE.Object3D;
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  scale: THREE.Vector3;
+};
+
+export type HistoryEntry = {
+  label: string;
+  before: ObjectTransform[];
+  after: ObjectTransform[];
+};
+
+export type History = {
+  past: HistoryEntry[];
+  // Entries undone since the last new one, the most recently undone last.
+  future: HistoryEntry[];
+};
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+// Enough for a lesson's worth of fiddling without holding on to every transform since the page loaded.
+const MAX_ENTRIES = 100;
+const EPSILON = 1e-6;
+
+export function captureTransforms(objects: THREE.Object3D[]): ObjectTransform[] {
+  return objects.map((object) => ({
+    object,
+    position: object.position.clone(),
+    quaternion: object.quaternion.clone(),
+    scale: object.scale.clone(),
+  }));
+}
+
+function hasMoved({ object, position, quaternion, scale }: ObjectTransform): boolean {
+  return (
+    object.position.distanceToSquared(position) > EPSILON ** 2 ||
+    1 - Math.abs(object.quaternion.dot(quaternion)) > EPSILON ||
+    object.scale.distanceToSquared(scale) > EPSILON ** 2 ||
+    // Still easing toward where a velocity-limited drag left it: that counts, even if it has barely started.
+    hasPendingMotion(object)
+  );
+}
+
+// Pending motion is dropped too, so a velocity-limited joint doesn't carry on toward the goal it was undone from.
+function applyTransforms(transforms: ObjectTransform[]) {
+  transforms.forEach(({ object, position, quaternion, scale }) => {
+    object.position.copy(position);
+    object.quaternion.copy(quaternion);
+    object.scale.copy(scale);
+    delete object.userData.motion;
+  });
+}
+
+/**
+ * The entry for something that has just finished (a drag let go, a squeeze released): the objects as `before`
+ * recorded them, and as they stand now. Null when nothing actually moved, so a click doesn't fill the history.
+ */
+export function createHistoryEntry(label: string, before: ObjectTransform[]): HistoryEntry | null {
+  if (!before.some(hasMoved)) {
+    return null;
+  }
+
+  return { label, before, after: captureTransforms(before.map(({ object }) => object)) };
+}
+
+export function pushHistory(history: History, entry: HistoryEntry): History {
+  return { past: [...history.past, entry].slice(-MAX_ENTRIES), future: [] };
+}
+
+/**
+ * Puts the last entry's objects back where it found them. Where they stand at that moment becomes what redo returns
+ * to, which also picks up a joint that was still easing toward its goal when the entry was recorded.
+ */
+export function undoHistory(history: History): History {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) {
+    return history;
+  }
+
+  const undone = { ...entry, after: captureTransforms(entry.after.map(({ object }) => object)) };
+  applyTransforms(entry.before);
+  return { past: history.past.slice(0, -1), future: [...history.future, undone] };
+}
+
+export function redoHistory(history: History): History {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) {
+    return history;
+  }
+
+  const redone = { ...entry, before: captureTransforms(entry.before.map(({ object }) => object)) };
+  applyTransforms(entry.after);
+  return { past: [...history.past, redone], future: history.future.slice(0, -1) };
+}
+
+function isInScene(object: THREE.Object3D, roots: THREE.Object3D[]): boolean {
+  for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+    if (roots.includes(current)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Drops entries that touch an arm no longer in the scene. Returns `history` itself if none did.
+export function keepHistoryOn(history: History, roots: THREE.Object3D[]): History {
+  const onScene = (entry: HistoryEntry) => entry.before.every(({ object }) => isInScene(object, roots));
+  const past = history.past.filter(onScene);
+  const future = history.future.filter(onScene);
+
+  return past.length === history.past.length && future.length === history.future.length
+    ? history
+    : { past, future };
+}
+
+/**
+ * Returns the joints to the pose the model loaded with, as recorded on each joint when its arm was set up. Joints
+ * without a recorded rest pose are left where they are.
+ */
+export function applyHomePose(joints: THREE.Object3D[]) {
+  joints.forEach((joint) => {
+    const restPosition = joint.userData.restPosition as THREE.Vector3 | undefined;
+    const restQuaternion = joint.userData.restQuaternion as THREE.Quaternion | undefined;
+    if (restPosition && restQuaternion) {
+      joint.position.copy(restPosition);
+      joint.quaternion.copy(restQuaternion);
+      delete joint.userData.motion;
+    }
+  });
+}
@@ -0,0 +1,132 @@
+import * as THREE from 'three';
+import {
+  AXES,
+  clampIfNeeded,
+  getRotationAxes,
+  getRotationAxisWorld,
+  getSlideAxis,
+  getSlideOffset,
+  type Axis,
+  type AxisConstraint,
+  type JointConstraint,
+} from './joints.ts';
+
+export type IKLink = {
+  joint: THREE.Object3D;
+  constraint: JointConstraint;
+};
+
+export type IKOptions = {
+  iterations?: number;
+  // World-space distance, in meters, at which the effector counts as on target.
+  tolerance?: number;
+};
+
+const tempJointPos = new THREE.Vector3();
+const tempEffectorPos = new THREE.Vector3();
+const tempToEffector = new THREE.Vector3();
+const tempToGoal = new THREE.Vector3();
+const tempCross = new THREE.Vector3();
+const tempAxis = new THREE.Vector3();
+const tempLocalGoal = new THREE.Vector3();
+const tempLocalEffector = new THREE.Vector3();
+
+function rotateTowards(
+  joint: THREE.Object3D,
+  axis: Axis,
+  constraint: AxisConstraint | undefined,
+  effector: THREE.Object3D,
+  goal: THREE.Vector3,
+) {
+  joint.getWorldPosition(tempJointPos);
+  effector.getWorldPosition(tempEffectorPos);
+  getRotationAxisWorld(joint, axis, tempAxis);
+
+  tempToEffector.subVectors(tempEffectorPos, tempJointPos).projectOnPlane(tempAxis);
+  tempToGoal.subVectors(goal, tempJointPos).projectOnPlane(tempAxis);
+
+  if (tempToEffector.lengthSq() < 1e-10 || tempToGoal.lengthSq() < 1e-10) {
+    return;
+  }
+
+  let angle = tempToEffector.angleTo(tempToGoal);
+  if (tempCross.crossVectors(tempToEffector, tempToGoal).dot(tempAxis) < 0) {
+    angle = -angle;
+  }
+
+  joint.rotation[axis] = clampIfNeeded(joint.rotation[axis] + angle, constraint);
+  joint.updateMatrixWorld(true);
+}
+
+function slideTowards(
+  joint: THREE.Object3D,
+  axis: Axis,
+  constraint: AxisConstraint,
+  effector: THREE.Object3D,
+  goal: THREE.Vector3,
+) {
+  const parent = joint.parent;
+  if (!parent) {
+    return;
+  }
+
+  parent.worldToLocal(tempLocalGoal.copy(goal));
+  parent.worldToLocal(effector.getWorldPosition(tempLocalEffector));
+  tempLocalGoal.sub(tempLocalEffector);
+
+  const currentOffset = getSlideOffset(joint, axis);
+  getSlideAxis(joint, axis, tempAxis);
+  const nextOffset = clampIfNeeded(currentOffset + tempLocalGoal.dot(tempAxis), constraint);
+
+  joint.position.addScaledVector(tempAxis, nextOffset - currentOffset);
+  joint.updateMatrixWorld(true);
+}
+
+/**
+ * Cyclic coordinate descent: sweeps the chain from tip to base, turning or sliding each enabled axis so the
+ * effector moves as close to `goal` as that axis alone allows. Limits are applied per step, so an unreachable
+ * goal leaves the arm in the closest pose it found. Returns the remaining world-space distance.
+ */
+export function solveCCD(
+  chain: IKLink[],
+  effector: THREE.Object3D,
+  goal: THREE.Vector3,
+  { iterations = 16, tolerance = 0.002 }: IKOptions = {},
+): number {
+  let error = effector.getWorldPosition(tempEffectorPos).distanceTo(goal);
+
+  for (let iteration = 0; iteration < iterations && error > tolerance; iteration += 1) {
+    for (let index = chain.length - 1; index >= 0; index -= 1) {
+      const { joint, constraint } = chain[index];
+
+      AXES.forEach((axis) => {
+        const slideConstraint = constraint.translation?.[axis];
+        if (slideConstraint?.enabled) {
+          slideTowards(joint, axis, slideConstraint, effector, goal);
+        }
+      });
+
+      getRotationAxes(constraint).forEach((axis) => {
+        rotateTowards(joint, axis, constraint[axis], effector, goal);
+      });
+    }
+
+    error = effector.getWorldPosition(tempEffectorPos).distanceTo(goal);
+  }
+
+  return error;
+}
+
+// Only joints that actually carry the effector can move it; they are returned base first.
+export function buildChain(
+  joints: THREE.Object3D[],
+  effector: THREE.Object3D,
+  getConstraint: (joint: THREE.Object3D) => JointConstraint,
+): IKLink[] {
+  const ancestors: THREE.Object3D[] = [];
+  for (let current: THREE.Object3D | null = effector; current; current = current.parent) {
+    ancestors.unshift(current);
+  }
+
+  return ancestors.filter((node) => joints.includes(node)).map((joint) => ({ joint, constraint: getConstraint(joint) }));
+}
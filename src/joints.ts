@@ -0,0 +1,218 @@
+import * as THREE from 'three';
+
+export type AxisConstraint = {
+  enabled: boolean;
+  min?: number;
+  max?: number;
+  // Per second and per second squared, in radians for rotations and model units for slides. Unset means unlimited.
+  maxVelocity?: number;
+  maxAcceleration?: number;
+};
+
+export type Axis = 'x' | 'y' | 'z';
+
+export type JointConstraint = {
+  x?: AxisConstraint;
+  y?: AxisConstraint;
+  z?: AxisConstraint;
+  // Prismatic travel along the joint's own axes, measured in model units from its rest position.
+  translation?: Partial<Record<Axis, AxisConstraint>>;
+};
+
+export const AXES: Axis[] = ['x', 'y', 'z'];
+
+const tempSlideAxis = new THREE.Vector3();
+const tempSlideOffset = new THREE.Vector3();
+const tempAxisQuat = new THREE.Quaternion();
+const tempAxisEuler = new THREE.Euler();
+
+export function unitAxis(axis: Axis, out: THREE.Vector3): THREE.Vector3 {
+  return out.set(axis === 'x' ? 1 : 0, axis === 'y' ? 1 : 0, axis === 'z' ? 1 : 0);
+}
+
+export function clampIfNeeded(value: number, constraint?: AxisConstraint): number {
+  if (!constraint?.enabled) {
+    return value;
+  }
+
+  let nextValue = value;
+
+  if (constraint.min !== undefined) {
+    nextValue = Math.max(constraint.min, nextValue);
+  }
+
+  if (constraint.max !== undefined) {
+    nextValue = Math.min(constraint.max, nextValue);
+  }
+
+  return nextValue;
+}
+
+export function hasEnabledAxis(constraint?: JointConstraint): boolean {
+  if (!constraint) {
+    return false;
+  }
+
+  return AXES.some((axis) => constraint[axis]?.enabled || constraint.translation?.[axis]?.enabled);
+}
+
+export function isPrismaticJoint(constraint: JointConstraint): boolean {
+  return (
+    AXES.some((axis) => constraint.translation?.[axis]?.enabled) && !AXES.some((axis) => constraint[axis]?.enabled)
+  );
+}
+
+// Joints without any constraint are free on x and y, the two axes a drag has always driven.
+export function getRotationAxes(constraint: JointConstraint): Axis[] {
+  if (!hasEnabledAxis(constraint)) {
+    return ['x', 'y'];
+  }
+
+  return AXES.filter((axis) => constraint[axis]?.enabled);
+}
+
+// World-space axis that `target.rotation[axis]` turns about, assuming the default 'XYZ' Euler order.
+export function getRotationAxisWorld(target: THREE.Object3D, axis: Axis, out: THREE.Vector3): THREE.Vector3 {
+  const worldQuat = target.parent ? target.parent.getWorldQuaternion(tempAxisQuat) : tempAxisQuat.identity();
+
+  if (axis === 'y') {
+    worldQuat.multiply(new THREE.Quaternion().setFromEuler(tempAxisEuler.set(target.rotation.x, 0, 0)));
+  } else if (axis === 'z') {
+    worldQuat.multiply(new THREE.Quaternion().setFromEuler(tempAxisEuler.set(target.rotation.x, target.rotation.y, 0)));
+  }
+
+  return unitAxis(axis, out).applyQuaternion(worldQuat).normalize();
+}
+
+// Slide axes follow the joint's own orientation, expressed in its parent's frame like `position`.
+export function getSlideAxis(target: THREE.Object3D, axis: Axis, out: THREE.Vector3): THREE.Vector3 {
+  return unitAxis(axis, out).applyQuaternion(target.quaternion);
+}
+
+export function getSlideOffset(target: THREE.Object3D, axis: Axis): number {
+  const restPosition = target.userData.restPosition as THREE.Vector3 | undefined;
+  if (!restPosition) {
+    return 0;
+  }
+
+  return tempSlideOffset.copy(target.position).sub(restPosition).dot(getSlideAxis(target, axis, tempSlideAxis));
+}
+
+// Constraint files, manifests and glTF extras give rotation limits (and rates) in degrees, the unit people author by
+// hand.
+function parseAxisConstraint(raw: unknown, toRadians: boolean): AxisConstraint | undefined {
+  if (!raw || typeof raw !== 'object') {
+    return undefined;
+  }
+
+  const { enabled, min, max, maxVelocity, maxAcceleration } = raw as Record<string, unknown>;
+  const convert = (value: unknown) =>
+    typeof value === 'number' ? (toRadians ? THREE.MathUtils.degToRad(value) : value) : undefined;
+  const convertRate = (value: unknown) => (typeof value === 'number' && value > 0 ? convert(value) : undefined);
+
+  return {
+    enabled: enabled !== false,
+    min: convert(min),
+    max: convert(max),
+    maxVelocity: convertRate(maxVelocity),
+    maxAcceleration: convertRate(maxAcceleration),
+  };
+}
+
+export function parseJointConstraint(raw: unknown): JointConstraint {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  const source = raw as Record<string, unknown>;
+  const translation = source.translation as Record<string, unknown> | undefined;
+  const constraint: JointConstraint = {};
+
+  AXES.forEach((axis) => {
+    const rotation = parseAxisConstraint(source[axis], true);
+    if (rotation) {
+      constraint[axis] = rotation;
+    }
+
+    const slide = parseAxisConstraint(translation?.[axis], false);
+    if (slide) {
+      constraint.translation = { ...constraint.translation, [axis]: slide };
+    }
+  });
+
+  return constraint;
+}
+
+export function parseJointConstraints(raw: unknown): Record<string, JointConstraint> {
+  if (!raw || typeof raw !== 'object') {
+    return {};
+  }
+
+  return Object.fromEntries(Object.entries(raw).map(([name, value]) => [name, parseJointConstraint(value)]));
+}
+
+function serializeAxisConstraint(constraint: AxisConstraint, toDegrees: boolean) {
+  const convert = (value?: number) =>
+    value === undefined ? undefined : toDegrees ? Number(THREE.MathUtils.radToDeg(value).toFixed(4)) : value;
+
+  return {
+    enabled: constraint.enabled,
+    min: convert(constraint.min),
+    max: convert(constraint.max),
+    maxVelocity: convert(constraint.maxVelocity),
+    maxAcceleration: convert(constraint.maxAcceleration),
+  };
+}
+
+// The inverse of `parseJointConstraints`: the same shape a manifest's `joints` entry or a bone's extras use.
+export function serializeJointConstraints(constraints: Record<string, JointConstraint>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(constraints).map(([name, constraint]) => {
+      const entry: Record<string, unknown> = {};
+
+      AXES.forEach((axis) => {
+        const rotation = constraint[axis];
+        if (rotation) {
+          entry[axis] = serializeAxisConstraint(rotation, true);
+        }
+
+        const slide = constraint.translation?.[axis];
+        if (slide) {
+          entry.translation = { ...(entry.translation as object), [axis]: serializeAxisConstraint(slide, false) };
+        }
+      });
+
+      return [name, entry];
+    }),
+  );
+}
+
+// Bones may carry their own limits as glTF `extras.joint`, which the loader places on `userData`.
+export function readExtrasConstraints(joints: THREE.Object3D[]): Record<string, JointConstraint> {
+  return Object.fromEntries(
+    joints.filter((joint) => joint.userData.joint).map((joint) => [joint.name, parseJointConstraint(joint.userData.joint)]),
+  );
+}
+
+// GLTFLoader strips characters such as '.' from node names (Bone.001 becomes Bone001) and keeps the authored name in
+// `userData.name`. Manifests and constraint files may use either; everything downstream keys by the loaded name.
+export function keyByJointName(
+  constraints: Record<string, JointConstraint>,
+  joints: THREE.Object3D[],
+): Record<string, JointConstraint> {
+  const keyed = { ...constraints };
+
+  joints.forEach((joint) => {
+    const authoredName = joint.userData.name as string | undefined;
+    if (authoredName && authoredName !== joint.name && constraints[authoredName] && !constraints[joint.name]) {
+      keyed[joint.name] = constraints[authoredName];
+      delete keyed[authoredName];
+    }
+  });
+
+  return keyed;
+}
+
+export function getJointConstraint(constraints: Record<string, JointConstraint>, target: THREE.Object3D): JointConstraint {
+  return constraints[target.name] ?? {};
+}
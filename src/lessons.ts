@@ -0,0 +1,330 @@
+import * as THREE from 'three';
+import { AXES, type Axis } from './joints.ts';
+import { readJointAxis } from './motion.ts';
+
+export type LessonCheck =
+  // A joint's rotation about one of its axes, in degrees, within `tolerance` degrees either way.
+  | { type: 'joint'; joint: string; axis: Axis; target: number; tolerance: number }
+  // A prismatic joint's slide along one of its axes, in model units.
+  | { type: 'slide'; joint: string; axis: Axis; target: number; tolerance: number }
+  // The tool tip inside a sphere given in the arm's own frame and model units (metres for URDF robots).
+  | { type: 'tipZone'; center: THREE.Vector3Tuple; radius: number };
+
+export type LessonStep = {
+  id: string;
+  title: string;
+  instruction: string;
+  // Revealed one at a time on request; each one used is recorded against the step.
+  hints: string[];
+  // Seconds every check has to stay satisfied, so sweeping through the target doesn't count.
+  hold: number;
+  checks: LessonCheck[];
+};
+
+export type Lesson = {
+  id: string;
+  title: string;
+  description: string;
+  steps: LessonStep[];
+};
+
+export type CheckReading = {
+  passed: boolean;
+  // How far off the check is: degrees, model units, or distance outside the zone. Zero once inside.
+  error: number;
+  label: string;
+};
+
+export type StepResult = {
+  stepId: string;
+  title: string;
+  status: 'passed' | 'skipped';
+  seconds: number;
+  hintsUsed: number;
+};
+
+export type LessonRun = {
+  lesson: Lesson;
+  modelId: string;
+  student: string;
+  // Wall-clock milliseconds, so the report says when the lesson was taken.
+  startedAt: number;
+  stepStartedAt: number;
+  stepIndex: number;
+  hintsShown: number;
+  results: StepResult[];
+  finishedAt: number | null;
+};
+
+export type LessonReport = {
+  student: string;
+  modelId: string;
+  lessonId: string;
+  lessonTitle: string;
+  startedAt: string;
+  finishedAt: string | null;
+  totalSeconds: number;
+  // Percentage of steps passed rather than skipped.
+  score: number;
+  steps: StepResult[];
+};
+
+const DEFAULT_HOLD = 0.5;
+const REPORTS_STORAGE_KEY = 'mecanism.lessonReports';
+
+const tempTipPos = new THREE.Vector3();
+const tempCenter = new THREE.Vector3();
+
+function readText(entry: Record<string, unknown>, key: string, where: string, fallback?: string): string {
+  const value = entry[key];
+  if (typeof value === 'string' && value.length > 0) {
+    return value;
+  }
+  if (fallback !== undefined) {
+    return fallback;
+  }
+
+  throw new Error(`${where} is missing "${key}"`);
+}
+
+function readFinite(entry: Record<string, unknown>, key: string, where: string, fallback?: number): number {
+  const value = entry[key];
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (fallback !== undefined) {
+    return fallback;
+  }
+
+  throw new Error(`${where} needs a number for "${key}"`);
+}
+
+function parseCheck(raw: unknown, where: string): LessonCheck {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${where} is not an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  switch (entry.type) {
+    case 'joint':
+    case 'slide': {
+      const axis = entry.axis;
+      if (!AXES.includes(axis as Axis)) {
+        throw new Error(`${where} needs an "axis" of x, y or z`);
+      }
+      return {
+        type: entry.type,
+        joint: readText(entry, 'joint', where),
+        axis: axis as Axis,
+        target: readFinite(entry, 'target', where),
+        tolerance: Math.abs(readFinite(entry, 'tolerance', where, entry.type === 'joint' ? 2 : 0.05)),
+      };
+    }
+    case 'tipZone': {
+      const center = entry.center;
+      if (!Array.isArray(center) || center.length !== 3 || !center.every((value) => Number.isFinite(value))) {
+        throw new Error(`${where} needs a "center" of three numbers`);
+      }
+      return { type: 'tipZone', center: center as THREE.Vector3Tuple, radius: Math.abs(readFinite(entry, 'radius', where)) };
+    }
+    default:
+      throw new Error(`${where} has an unknown type "${String(entry.type)}"`);
+  }
+}
+
+function parseStep(raw: unknown, where: string, index: number): LessonStep {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${where} is not an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const checks = Array.isArray(entry.checks) ? entry.checks : entry.check ? [entry.check] : [];
+  if (checks.length === 0) {
+    throw new Error(`${where} has no checks`);
+  }
+
+  return {
+    id: readText(entry, 'id', where, `step-${index + 1}`),
+    title: readText(entry, 'title', where),
+    instruction: readText(entry, 'instruction', where, ''),
+    hints: Array.isArray(entry.hints) ? entry.hints.filter((hint): hint is string => typeof hint === 'string') : [],
+    hold: Math.max(0, readFinite(entry, 'hold', where, DEFAULT_HOLD)),
+    checks: checks.map((check, checkIndex) => parseCheck(check, `${where}, check ${checkIndex + 1}`)),
+  };
+}
+
+function parseLesson(raw: unknown, index: number): Lesson {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`Lesson ${index + 1} is not an object`);
+  }
+
+  const entry = raw as Record<string, unknown>;
+  const id = readText(entry, 'id', `Lesson ${index + 1}`);
+  const where = `Lesson "${id}"`;
+  if (!Array.isArray(entry.steps) || entry.steps.length === 0) {
+    throw new Error(`${where} has no steps`);
+  }
+
+  return {
+    id,
+    title: readText(entry, 'title', where, id),
+    description: readText(entry, 'description', where, ''),
+    steps: entry.steps.map((step, stepIndex) => parseStep(step, `${where}, step ${stepIndex + 1}`, stepIndex)),
+  };
+}
+
+// Accepts a lesson file (`{ "lessons": [...] }`) or a single lesson object.
+export function parseLessons(raw: unknown): Lesson[] {
+  const list = (raw as { lessons?: unknown } | null)?.lessons ?? [raw];
+  if (!Array.isArray(list)) {
+    throw new Error('The lesson file has no "lessons" list');
+  }
+
+  return list.map(parseLesson);
+}
+
+/**
+ * Loads the lessons written for a model. A lesson is a list of steps; each step passes once all of its checks (joint
+ * angles, slides, or the tool tip inside a zone) have held within tolerance for the step's `hold` time.
+ */
+export async function loadLessons(url: string): Promise<Lesson[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load lessons from ${url} (${response.status} ${response.statusText})`);
+  }
+
+  return parseLessons(await response.json());
+}
+
+// Lesson files name joints as authored, like manifests do; GLTFLoader may have stripped the '.' from Bone.001.
+export function findLessonJoint(joints: THREE.Object3D[], name: string): THREE.Object3D | null {
+  return joints.find((joint) => joint.name === name) ?? joints.find((joint) => joint.userData.name === name) ?? null;
+}
+
+export function evaluateCheck(
+  check: LessonCheck,
+  joints: THREE.Object3D[],
+  armRoot: THREE.Object3D,
+  endEffector: THREE.Object3D | null,
+): CheckReading {
+  if (check.type === 'tipZone') {
+    if (!endEffector) {
+      return { passed: false, error: Infinity, label: 'tool tip not found' };
+    }
+
+    armRoot.updateWorldMatrix(true, false);
+    armRoot.worldToLocal(endEffector.getWorldPosition(tempTipPos));
+    const error = Math.max(0, tempTipPos.distanceTo(tempCenter.fromArray(check.center)) - check.radius);
+    return { passed: error === 0, error, label: error === 0 ? 'tip in zone' : `tip ${error.toFixed(2)} from zone` };
+  }
+
+  const joint = findLessonJoint(joints, check.joint);
+  if (!joint) {
+    return { passed: false, error: Infinity, label: `${check.joint} not found` };
+  }
+
+  if (check.type === 'slide') {
+    const value = readJointAxis(joint, 'slide', check.axis);
+    const error = Math.abs(value - check.target);
+    return {
+      passed: error <= check.tolerance,
+      error,
+      label: `${joint.name} t${check.axis} ${value.toFixed(2)} → ${check.target.toFixed(2)}`,
+    };
+  }
+
+  const value = THREE.MathUtils.radToDeg(readJointAxis(joint, 'rotation', check.axis));
+  // The short way round, so 179° and -179° are two degrees apart.
+  const difference = ((((value - check.target) % 360) + 540) % 360) - 180;
+  const error = Math.abs(difference);
+  return {
+    passed: error <= check.tolerance,
+    error,
+    label: `${joint.name} r${check.axis} ${value.toFixed(1)}° → ${check.target.toFixed(1)}°`,
+  };
+}
+
+export function startLessonRun(lesson: Lesson, modelId: string, student: string, now = Date.now()): LessonRun {
+  return {
+    lesson,
+    modelId,
+    student,
+    startedAt: now,
+    stepStartedAt: now,
+    stepIndex: 0,
+    hintsShown: 0,
+    results: [],
+    finishedAt: null,
+  };
+}
+
+export function getCurrentStep(run: LessonRun): LessonStep | null {
+  return run.finishedAt === null ? run.lesson.steps[run.stepIndex] ?? null : null;
+}
+
+export function revealHint(run: LessonRun): LessonRun {
+  const step = getCurrentStep(run);
+  return step && run.hintsShown < step.hints.length ? { ...run, hintsShown: run.hintsShown + 1 } : run;
+}
+
+// Records the current step and moves on; the run finishes after the last one.
+export function completeStep(run: LessonRun, status: StepResult['status'], now = Date.now()): LessonRun {
+  const step = getCurrentStep(run);
+  if (!step) {
+    return run;
+  }
+
+  const results = [
+    ...run.results,
+    {
+      stepId: step.id,
+      title: step.title,
+      status,
+      seconds: (now - run.stepStartedAt) / 1000,
+      hintsUsed: run.hintsShown,
+    },
+  ];
+  const stepIndex = run.stepIndex + 1;
+
+  return {
+    ...run,
+    results,
+    stepIndex,
+    stepStartedAt: now,
+    hintsShown: 0,
+    finishedAt: stepIndex >= run.lesson.steps.length ? now : null,
+  };
+}
+
+export function getLessonScore(run: LessonRun): number {
+  const passed = run.results.filter((result) => result.status === 'passed').length;
+  return Math.round((100 * passed) / run.lesson.steps.length);
+}
+
+export function getLessonReport(run: LessonRun): LessonReport {
+  return {
+    student: run.student,
+    modelId: run.modelId,
+    lessonId: run.lesson.id,
+    lessonTitle: run.lesson.title,
+    startedAt: new Date(run.startedAt).toISOString(),
+    finishedAt: run.finishedAt === null ? null : new Date(run.finishedAt).toISOString(),
+    totalSeconds: ((run.finishedAt ?? Date.now()) - run.startedAt) / 1000,
+    score: getLessonScore(run),
+    steps: run.results,
+  };
+}
+
+// Finished lessons are kept in the browser until exported, so one machine can collect a class's results.
+export function loadLessonReports(): LessonReport[] {
+  try {
+    const raw = JSON.parse(window.localStorage.getItem(REPORTS_STORAGE_KEY) ?? '[]') as unknown;
+    return Array.isArray(raw) ? (raw as LessonReport[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function storeLessonReports(reports: LessonReport[]) {
+  window.localStorage.setItem(REPORTS_STORAGE_KEY, JSON.stringify(reports));
+}
@@ -0,0 +1,367 @@
+import * as THREE from 'three';
+import { AXES, type Axis, type AxisConstraint, type JointConstraint } from './joints.ts';
+import { readJointAxis, writeJointAxis, type MotionKind } from './motion.ts';
+
+// A point fixed in one node's frame, in model units.
+export type PinEnd = {
+  node: string;
+  point: THREE.Vector3Tuple;
+};
+
+// Two points on different branches of the model that have to stay together: a pin joint closing a loop.
+export type LoopClosure = {
+  name: string;
+  a: PinEnd;
+  b: PinEnd;
+};
+
+export type LinkageDefinition = {
+  // The joint the user drives. Every other joint carrying a closure point follows it.
+  input: string;
+  closures: LoopClosure[];
+};
+
+type LinkageVariable = {
+  joint: THREE.Object3D;
+  kind: MotionKind;
+  axis: Axis;
+  constraint?: AxisConstraint;
+};
+
+type ResolvedPinEnd = { object: THREE.Object3D; local: THREE.Vector3 };
+
+/** A linkage resolved against a loaded model, together with the last configuration in which every loop closed. */
+export type Linkage = {
+  root: THREE.Object3D;
+  input: THREE.Object3D;
+  inputs: LinkageVariable[];
+  dependents: LinkageVariable[];
+  closures: Array<{ name: string; a: ResolvedPinEnd; b: ResolvedPinEnd }>;
+  // A length typical of the mechanism, in model units; tolerances and step sizes scale with it.
+  size: number;
+  lastInput: number[] | null;
+  lastAssembled: number[] | null;
+  status: string | null;
+};
+
+const MAX_ITERATIONS = 60;
+// Fractions of the mechanism's size: how far apart two pin ends may be and still count as joined, and how close
+// the solver tries to bring them.
+const ASSEMBLY_TOLERANCE = 1e-3;
+const SOLVE_TOLERANCE = 1e-6;
+// Largest change one solver step makes: radians for rotations, a fraction of the size for slides.
+const MAX_STEP = 0.3;
+const FINITE_STEP = 1e-5;
+
+const tempRootInverse = new THREE.Matrix4();
+const tempPinA = new THREE.Vector3();
+const tempPinB = new THREE.Vector3();
+const tempInputPos = new THREE.Vector3();
+
+function readPinEnd(raw: unknown, where: string): PinEnd {
+  const { node, point } = (raw ?? {}) as Record<string, unknown>;
+  if (typeof node !== 'string' || node.length === 0) {
+    throw new Error(`${where} needs a "node"`);
+  }
+  if (point !== undefined && (!Array.isArray(point) || point.length !== 3 || !point.every(Number.isFinite))) {
+    throw new Error(`${where} needs a "point" of three numbers`);
+  }
+
+  return { node, point: (point as THREE.Vector3Tuple | undefined) ?? [0, 0, 0] };
+}
+
+// The `linkage` entry of a catalog model: an input joint and the pins that close its loops.
+export function parseLinkage(raw: unknown, where: string): LinkageDefinition {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error(`${where} has a "linkage" that is not an object`);
+  }
+
+  const { input, closures } = raw as Record<string, unknown>;
+  if (typeof input !== 'string' || input.length === 0) {
+    throw new Error(`${where} needs a linkage "input" joint`);
+  }
+  if (!Array.isArray(closures) || closures.length === 0) {
+    throw new Error(`${where} needs at least one linkage closure`);
+  }
+
+  return {
+    input,
+    closures: closures.map((closure, index) => {
+      const entry = (closure ?? {}) as Record<string, unknown>;
+      const name = typeof entry.name === 'string' && entry.name.length > 0 ? entry.name : `closure ${index + 1}`;
+      return {
+        name,
+        a: readPinEnd(entry.a, `${where}, ${name} end a`),
+        b: readPinEnd(entry.b, `${where}, ${name} end b`),
+      };
+    }),
+  };
+}
+
+// Manifests name nodes as authored, like joint limits; GLTFLoader may have stripped the '.' from Bone.001.
+function findNode(root: THREE.Object3D, name: string): THREE.Object3D | null {
+  let authored: THREE.Object3D | undefined;
+  root.traverse((object) => {
+    if (!authored && object.userData.name === name) {
+      authored = object;
+    }
+  });
+  return root.getObjectByName(name) ?? authored ?? null;
+}
+
+function getVariables(joint: THREE.Object3D, constraint: JointConstraint): LinkageVariable[] {
+  return [
+    ...AXES.filter((axis) => constraint[axis]?.enabled).map(
+      (axis): LinkageVariable => ({ joint, kind: 'rotation', axis, constraint: constraint[axis] }),
+    ),
+    ...AXES.filter((axis) => constraint.translation?.[axis]?.enabled).map(
+      (axis): LinkageVariable => ({ joint, kind: 'slide', axis, constraint: constraint.translation?.[axis] }),
+    ),
+  ];
+}
+
+function readVariable({ joint, kind, axis }: LinkageVariable): number {
+  return readJointAxis(joint, kind, axis);
+}
+
+function writeVariable({ joint, kind, axis }: LinkageVariable, value: number) {
+  writeJointAxis(joint, kind, axis, value);
+}
+
+/**
+ * Resolves `definition` against a loaded model. The dependent joints are every joint (other than the input) that
+ * carries one of the closure points; they are what the solver moves to keep the loops closed. Throws if a named node
+ * is missing or the input has nothing to drive.
+ */
+export function createLinkage(
+  definition: LinkageDefinition,
+  root: THREE.Object3D,
+  joints: THREE.Object3D[],
+  getConstraint: (joint: THREE.Object3D) => JointConstraint,
+): Linkage {
+  const resolve = (end: PinEnd): ResolvedPinEnd => {
+    const object = findNode(root, end.node);
+    if (!object) {
+      throw new Error(`The linkage names a node "${end.node}" the model doesn't have`);
+    }
+    return { object, local: new THREE.Vector3(...end.point) };
+  };
+
+  const input = joints.find((joint) => joint.name === definition.input || joint.userData.name === definition.input);
+  const inputs = input ? getVariables(input, getConstraint(input)) : [];
+  if (!input || inputs.length === 0) {
+    throw new Error(`The linkage input "${definition.input}" is not a joint that can move`);
+  }
+
+  const closures = definition.closures.map(({ name, a, b }) => ({ name, a: resolve(a), b: resolve(b) }));
+
+  const carrying = new Set<THREE.Object3D>();
+  closures.forEach(({ a, b }) => {
+    [a.object, b.object].forEach((object) => {
+      for (let current: THREE.Object3D | null = object; current && current !== root; current = current.parent) {
+        if (current !== input && joints.includes(current)) {
+          carrying.add(current);
+        }
+      }
+    });
+  });
+  const dependents = [...carrying].flatMap((joint) => getVariables(joint, getConstraint(joint)));
+  if (dependents.length === 0) {
+    throw new Error('No joint besides the linkage input carries a closure point, so nothing can follow it');
+  }
+
+  root.updateMatrixWorld(true);
+  tempRootInverse.copy(root.matrixWorld).invert();
+  input.getWorldPosition(tempInputPos).applyMatrix4(tempRootInverse);
+  const size = closures.reduce((largest, { a, b }) => {
+    tempPinA.copy(a.local).applyMatrix4(a.object.matrixWorld).applyMatrix4(tempRootInverse);
+    tempPinB.copy(b.local).applyMatrix4(b.object.matrixWorld).applyMatrix4(tempRootInverse);
+    return Math.max(largest, tempPinA.distanceTo(tempInputPos), tempPinB.distanceTo(tempInputPos));
+  }, 0);
+
+  return {
+    root,
+    input,
+    inputs,
+    dependents,
+    closures,
+    size: size > 1e-6 ? size : 1,
+    lastInput: null,
+    lastAssembled: null,
+    status: null,
+  };
+}
+
+// The gap at every pin, in the root's frame and model units, written into `out`. Returns its overall length.
+function readGaps(linkage: Linkage, out: number[]): number {
+  linkage.root.updateMatrixWorld(true);
+  tempRootInverse.copy(linkage.root.matrixWorld).invert();
+
+  let sum = 0;
+  linkage.closures.forEach(({ a, b }, index) => {
+    tempPinA.copy(a.local).applyMatrix4(a.object.matrixWorld).applyMatrix4(tempRootInverse);
+    tempPinB.copy(b.local).applyMatrix4(b.object.matrixWorld).applyMatrix4(tempRootInverse);
+    tempPinA.sub(tempPinB).toArray(out, index * 3);
+    sum += tempPinA.lengthSq();
+  });
+  return Math.sqrt(sum);
+}
+
+// Gaussian elimination with partial pivoting; null when the system is singular.
+function solveLinear(matrix: number[][], vector: number[]): number[] | null {
+  const n = vector.length;
+  const rows = matrix.map((row, index) => [...row, vector[index]]);
+
+  for (let column = 0; column < n; column += 1) {
+    let pivot = column;
+    for (let row = column + 1; row < n; row += 1) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(rows[pivot][column]) < 1e-14) {
+      return null;
+    }
+    [rows[column], rows[pivot]] = [rows[pivot], rows[column]];
+
+    for (let row = column + 1; row < n; row += 1) {
+      const factor = rows[row][column] / rows[column][column];
+      for (let k = column; k <= n; k += 1) {
+        rows[row][k] -= factor * rows[column][k];
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row -= 1) {
+    let sum = rows[row][n];
+    for (let k = row + 1; k < n; k += 1) {
+      sum -= rows[row][k] * solution[k];
+    }
+    solution[row] = sum / rows[row][row];
+  }
+  return solution;
+}
+
+/**
+ * Moves the dependent joints so every pin closes, starting from where they are so the mechanism stays on the same
+ * assembly branch (Levenberg-Marquardt on the pin gaps, with a finite-difference Jacobian). Returns why it could not,
+ * or null once it has.
+ */
+export function solveLinkage(linkage: Linkage): string | null {
+  const { dependents, size } = linkage;
+  const gaps: number[] = [];
+  const trial: number[] = [];
+  let error = readGaps(linkage, gaps);
+  let damping = 1e-3;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS && error > size * SOLVE_TOLERANCE; iteration += 1) {
+    const values = dependents.map(readVariable);
+    const columns = dependents.map((variable, index) => {
+      const step = variable.kind === 'rotation' ? FINITE_STEP : FINITE_STEP * size;
+      writeVariable(variable, values[index] + step);
+      readGaps(linkage, trial);
+      writeVariable(variable, values[index]);
+      return trial.map((value, row) => (value - gaps[row]) / step);
+    });
+
+    const normal = columns.map((a, i) =>
+      columns.map((b, j) => {
+        const dot = a.reduce((sum, value, row) => sum + value * b[row], 0);
+        return i === j ? dot * (1 + damping) + 1e-12 : dot;
+      }),
+    );
+    const gradient = columns.map((column) => -column.reduce((sum, value, row) => sum + value * gaps[row], 0));
+    const delta = solveLinear(normal, gradient);
+    if (!delta) {
+      break;
+    }
+
+    dependents.forEach((variable, index) => {
+      const limit = variable.kind === 'rotation' ? MAX_STEP : MAX_STEP * size;
+      writeVariable(variable, values[index] + THREE.MathUtils.clamp(delta[index], -limit, limit));
+    });
+
+    const nextError = readGaps(linkage, trial);
+    if (nextError < error) {
+      error = nextError;
+      trial.forEach((value, row) => {
+        gaps[row] = value;
+      });
+      damping = Math.max(damping / 10, 1e-9);
+    } else {
+      dependents.forEach((variable, index) => writeVariable(variable, values[index]));
+      damping *= 10;
+      if (damping > 1e8) {
+        break;
+      }
+    }
+  }
+
+  if (error > size * ASSEMBLY_TOLERANCE) {
+    // Name the pin left furthest apart.
+    let widest = 0;
+    linkage.closures.forEach((_, index) => {
+      const gap = Math.hypot(gaps[index * 3], gaps[index * 3 + 1], gaps[index * 3 + 2]);
+      const widestGap = Math.hypot(gaps[widest * 3], gaps[widest * 3 + 1], gaps[widest * 3 + 2]);
+      widest = gap > widestGap ? index : widest;
+    });
+    return `${linkage.closures[widest].name} can't close`;
+  }
+
+  const pastLimit = dependents.find(({ constraint }, index) => {
+    const value = readVariable(dependents[index]);
+    return (
+      (constraint?.min !== undefined && value < constraint.min - 1e-6) ||
+      (constraint?.max !== undefined && value > constraint.max + 1e-6)
+    );
+  });
+  return pastLimit ? `${pastLimit.joint.name} would pass its limit` : null;
+}
+
+function describeInput(linkage: Linkage, values: number[]): string {
+  return linkage.inputs
+    .map(({ kind, axis }, index) =>
+      kind === 'rotation'
+        ? `r${axis} ${THREE.MathUtils.radToDeg(values[index]).toFixed(1)}°`
+        : `t${axis} ${values[index].toFixed(3)}`,
+    )
+    .join(', ');
+}
+
+/**
+ * Run every frame. Once the input has been driven (or something has pulled the loops apart), solves for the
+ * dependent joints; if they can't be assembled, puts the input and the dependents back to the last configuration that
+ * closed and reports why. Returns the current report: null while the mechanism is assembled.
+ */
+export function stepLinkage(linkage: Linkage): string | null {
+  const input = linkage.inputs.map(readVariable);
+  const moved = !linkage.lastInput || input.some((value, index) => Math.abs(value - linkage.lastInput![index]) > 1e-9);
+  if (!moved && readGaps(linkage, []) <= linkage.size * ASSEMBLY_TOLERANCE) {
+    return linkage.status;
+  }
+
+  const failure = solveLinkage(linkage);
+  const variables = [...linkage.inputs, ...linkage.dependents];
+  if (!failure) {
+    linkage.lastInput = input;
+    linkage.lastAssembled = variables.map(readVariable);
+    linkage.status = null;
+    return null;
+  }
+
+  if (linkage.lastAssembled) {
+    variables.forEach((variable, index) => writeVariable(variable, linkage.lastAssembled![index]));
+    linkage.lastInput = linkage.lastAssembled.slice(0, linkage.inputs.length);
+  } else {
+    linkage.lastInput = input;
+  }
+
+  linkage.status = `Can't assemble with ${linkage.input.name} at ${describeInput(linkage, input)}: ${failure}`;
+  return linkage.status;
+}
+
+// Joints the solver moves; they follow the input and can't be dragged themselves.
+export function getDependentJoints(linkage: Linkage): THREE.Object3D[] {
+  return [...new Set(linkage.dependents.map(({ joint }) => joint))];
+}
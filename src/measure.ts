@@ -0,0 +1,178 @@
+import * as THREE from 'three';
+
+export type MeasureMode = 'off' | 'distance' | 'angle';
+
+// Where a picked point lands: on the surface that was hit, or on the origin of the joint that moves that link.
+export type MeasureSnap = 'surface' | 'joint';
+
+export type MeasureAnchor = {
+  // The point is kept in this object's frame, so it rides along as the link it was picked on moves.
+  object: THREE.Object3D;
+  local: THREE.Vector3;
+  // The arm's wrapper, for reading lengths in the arm's own units and for dropping the point with its arm.
+  root: THREE.Object3D;
+};
+
+export type Measurement = {
+  id: string;
+  kind: 'distance' | 'angle';
+  // Two ends of a distance, or three points of an angle measured at the middle one.
+  anchors: MeasureAnchor[];
+};
+
+export type MeasureState = {
+  // Points placed toward the next measurement.
+  pending: MeasureAnchor[];
+  measurements: Measurement[];
+};
+
+export const EMPTY_MEASURE: MeasureState = { pending: [], measurements: [] };
+
+export const MEASURE_POINTS: Record<Measurement['kind'], number> = { distance: 2, angle: 3 };
+
+const tempRootScale = new THREE.Vector3();
+const tempA = new THREE.Vector3();
+const tempB = new THREE.Vector3();
+const tempC = new THREE.Vector3();
+
+function createMeasurement(kind: Measurement['kind'], anchors: MeasureAnchor[]): Measurement {
+  return { id: `measure-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`, kind, anchors };
+}
+
+export function createAnchor(object: THREE.Object3D, worldPoint: THREE.Vector3, root: THREE.Object3D): MeasureAnchor {
+  object.updateWorldMatrix(true, false);
+  return { object, local: object.worldToLocal(worldPoint.clone()), root };
+}
+
+export function getAnchorWorld(anchor: MeasureAnchor, target: THREE.Vector3): THREE.Vector3 {
+  return anchor.object.localToWorld(target.copy(anchor.local));
+}
+
+/**
+ * The object a surface point should follow. A skinned mesh itself stays put while its bones bend it, so a point on
+ * one follows the bone that weighs most on the vertex hit; anything else follows the mesh.
+ */
+export function getSurfaceFrame(hit: THREE.Intersection): THREE.Object3D {
+  const mesh = hit.object;
+  if (!(mesh instanceof THREE.SkinnedMesh) || !hit.face) {
+    return mesh;
+  }
+
+  const skinIndex = mesh.geometry.getAttribute('skinIndex');
+  const skinWeight = mesh.geometry.getAttribute('skinWeight');
+  if (!skinIndex || !skinWeight) {
+    return mesh;
+  }
+
+  let bone: THREE.Object3D = mesh;
+  let heaviest = 0;
+  for (let slot = 0; slot < 4; slot += 1) {
+    const weight = skinWeight.getComponent(hit.face.a, slot);
+    if (weight > heaviest) {
+      heaviest = weight;
+      bone = mesh.skeleton.bones[skinIndex.getComponent(hit.face.a, slot)] ?? bone;
+    }
+  }
+  return bone;
+}
+
+// The joint that carries `object`: itself if it is one, else its nearest ancestor that is.
+export function findCarryingJoint(
+  object: THREE.Object3D,
+  joints: THREE.Object3D[],
+  root: THREE.Object3D,
+): THREE.Object3D {
+  for (let current: THREE.Object3D | null = object; current && current !== root; current = current.parent) {
+    if (joints.includes(current)) {
+      return current;
+    }
+  }
+  return root;
+}
+
+// Adds a point toward the next measurement, completing it once it has all the points its kind needs.
+export function addMeasurePoint(state: MeasureState, anchor: MeasureAnchor, kind: Measurement['kind']): MeasureState {
+  const pending = [...state.pending, anchor];
+  if (pending.length < MEASURE_POINTS[kind]) {
+    return { ...state, pending };
+  }
+
+  return { pending: [], measurements: [...state.measurements, createMeasurement(kind, pending)] };
+}
+
+// Takes back the last point placed, or the last measurement when no points are pending.
+export function undoMeasurePoint(state: MeasureState): MeasureState {
+  return state.pending.length > 0
+    ? { ...state, pending: state.pending.slice(0, -1) }
+    : { ...state, measurements: state.measurements.slice(0, -1) };
+}
+
+// The distance between two joint origins, without picking them in the scene.
+export function measureJoints(
+  state: MeasureState,
+  pairs: Array<[THREE.Object3D, THREE.Object3D]>,
+  root: THREE.Object3D,
+): MeasureState {
+  const origin = new THREE.Vector3();
+  return {
+    ...state,
+    measurements: [
+      ...state.measurements,
+      ...pairs.map(([a, b]) =>
+        createMeasurement('distance', [
+          { object: a, local: origin.clone(), root },
+          { object: b, local: origin.clone(), root },
+        ]),
+      ),
+    ],
+  };
+}
+
+// Every joint with the nearest joint above it in the chain: the length of each link, as the model is built.
+export function getLinkPairs(joints: THREE.Object3D[], root: THREE.Object3D): Array<[THREE.Object3D, THREE.Object3D]> {
+  return joints.flatMap((joint): Array<[THREE.Object3D, THREE.Object3D]> => {
+    const parent = joint.parent ? findCarryingJoint(joint.parent, joints, root) : root;
+    return parent === root ? [] : [[parent, joint]];
+  });
+}
+
+// Drops measurements (and pending points) on arms that have left the scene. Returns `state` itself if none did.
+export function keepMeasurementsOn(state: MeasureState, roots: THREE.Object3D[]): MeasureState {
+  const onScene = (anchor: MeasureAnchor) => roots.includes(anchor.root);
+  const pending = state.pending.every(onScene) ? state.pending : [];
+  const measurements = state.measurements.filter((measurement) => measurement.anchors.every(onScene));
+
+  return pending === state.pending && measurements.length === state.measurements.length
+    ? state
+    : { pending, measurements };
+}
+
+export function formatLength(meters: number): string {
+  return meters < 1 ? `${(meters * 100).toFixed(1)} cm` : `${meters.toFixed(3)} m`;
+}
+
+/**
+ * The measurement as it stands now. Distances are in scene metres; when both ends are on one arm shown at a scale
+ * other than 1:1, its length in the arm's own model units follows, which is what the link dimensions are given in.
+ */
+export function readMeasurement(measurement: Measurement): string {
+  const [a, b, c] = measurement.anchors;
+
+  if (measurement.kind === 'angle') {
+    getAnchorWorld(a, tempA);
+    getAnchorWorld(b, tempB);
+    getAnchorWorld(c, tempC);
+    const angle = tempA.sub(tempB).angleTo(tempC.sub(tempB));
+    return `${THREE.MathUtils.radToDeg(angle).toFixed(1)}°`;
+  }
+
+  const distance = getAnchorWorld(a, tempA).distanceTo(getAnchorWorld(b, tempB));
+  if (a.root !== b.root) {
+    return formatLength(distance);
+  }
+
+  const scale = a.root.getWorldScale(tempRootScale).x;
+  return Math.abs(scale - 1) < 1e-3
+    ? formatLength(distance)
+    : `${formatLength(distance)} (${(distance / scale).toFixed(2)} model units)`;
+}
@@ -0,0 +1,138 @@
+import * as THREE from 'three';
+import { getSlideAxis, getSlideOffset, type Axis, type AxisConstraint, type JointConstraint } from './joints.ts';
+
+export type MotionKind = 'rotation' | 'slide';
+
+type AxisMotion = {
+  kind: MotionKind;
+  axis: Axis;
+  goal: number;
+  velocity: number;
+  // The value this profile last wrote; anything else means another tool has moved the joint since.
+  last: number;
+  // True while the velocity or acceleration limit holds the joint back from where it is being driven.
+  saturated: boolean;
+};
+
+// Longest step the profile takes in one frame, so a stalled tab doesn't make the joint leap when it resumes.
+const MAX_STEP = 0.1;
+const tempSlideAxis = new THREE.Vector3();
+
+export function hasMotionLimits(constraint?: AxisConstraint): boolean {
+  return constraint?.maxVelocity !== undefined || constraint?.maxAcceleration !== undefined;
+}
+
+export function readJointAxis(target: THREE.Object3D, kind: MotionKind, axis: Axis): number {
+  return kind === 'rotation' ? target.rotation[axis] : getSlideOffset(target, axis);
+}
+
+export function writeJointAxis(target: THREE.Object3D, kind: MotionKind, axis: Axis, value: number) {
+  if (kind === 'rotation') {
+    target.rotation[axis] = value;
+    return;
+  }
+
+  getSlideAxis(target, axis, tempSlideAxis);
+  target.position.addScaledVector(tempSlideAxis, value - getSlideOffset(target, axis));
+}
+
+function getMotions(target: THREE.Object3D): Record<string, AxisMotion> {
+  return (target.userData.motion ??= {}) as Record<string, AxisMotion>;
+}
+
+/**
+ * Sends one axis of a joint toward `goal`. Without velocity or acceleration limits it gets there at once; with them
+ * the goal is only recorded and `stepJointMotion` moves the joint there over the following frames.
+ */
+export function driveAxis(
+  target: THREE.Object3D,
+  kind: MotionKind,
+  axis: Axis,
+  goal: number,
+  constraint: AxisConstraint | undefined,
+) {
+  const motions = getMotions(target);
+  const key = `${kind}-${axis}`;
+
+  if (!hasMotionLimits(constraint)) {
+    writeJointAxis(target, kind, axis, goal);
+    delete motions[key];
+    return;
+  }
+
+  const motion = motions[key];
+  if (motion) {
+    motion.goal = goal;
+    return;
+  }
+
+  motions[key] = { kind, axis, goal, velocity: 0, last: readJointAxis(target, kind, axis), saturated: false };
+}
+
+export function hasPendingMotion(target: THREE.Object3D): boolean {
+  const motions = target.userData.motion as Record<string, AxisMotion> | undefined;
+  return Boolean(motions && Object.keys(motions).length > 0);
+}
+
+/**
+ * Advances every pending axis of `target` along a trapezoidal profile: accelerate up to the velocity limit, cruise,
+ * and brake early enough to stop on the goal. An axis that was moved by something else (a pose, playback, IK) since
+ * the last step is dropped, so the profile never drags it back.
+ */
+export function stepJointMotion(target: THREE.Object3D, constraint: JointConstraint, delta: number) {
+  const motions = getMotions(target);
+  const dt = Math.min(delta, MAX_STEP);
+
+  Object.entries(motions).forEach(([key, motion]) => {
+    const value = readJointAxis(target, motion.kind, motion.axis);
+    if (Math.abs(value - motion.last) > 1e-6) {
+      delete motions[key];
+      return;
+    }
+
+    const axisConstraint = motion.kind === 'rotation' ? constraint[motion.axis] : constraint.translation?.[motion.axis];
+    const maxVelocity = axisConstraint?.maxVelocity ?? Infinity;
+    const maxAcceleration = axisConstraint?.maxAcceleration ?? Infinity;
+    const error = motion.goal - value;
+
+    // The fastest speed that can still stop at the goal, then whatever of it the acceleration limit allows.
+    const wanted = Math.sign(error) * Math.min(maxVelocity, Math.sqrt(2 * maxAcceleration * Math.abs(error)));
+    const change = maxAcceleration * dt;
+    const velocity = THREE.MathUtils.clamp(wanted, motion.velocity - change, motion.velocity + change);
+    const step = velocity * dt;
+
+    if (Math.abs(step) >= Math.abs(error) || error === 0) {
+      writeJointAxis(target, motion.kind, motion.axis, motion.goal);
+      delete motions[key];
+      return;
+    }
+
+    writeJointAxis(target, motion.kind, motion.axis, value + step);
+    motion.velocity = velocity;
+    motion.last = value + step;
+    motion.saturated = Math.abs(velocity) >= maxVelocity - 1e-6 || velocity !== wanted;
+  });
+}
+
+// After a step that collision blocking undid: stop the axis where it was put back instead of dropping its goal.
+export function settleJointMotion(target: THREE.Object3D) {
+  Object.values(getMotions(target)).forEach((motion) => {
+    const value = readJointAxis(target, motion.kind, motion.axis);
+    if (Math.abs(value - motion.last) > 1e-6) {
+      motion.last = value;
+      motion.velocity = 0;
+    }
+  });
+}
+
+// Axis labels ('rx', 'ty', ...) currently held back by their velocity or acceleration limit.
+export function getSaturatedAxes(target: THREE.Object3D): string[] {
+  const motions = target.userData.motion as Record<string, AxisMotion> | undefined;
+  if (!motions) {
+    return [];
+  }
+
+  return Object.values(motions)
+    .filter((motion) => motion.saturated)
+    .map((motion) => `${motion.kind === 'rotation' ? 'r' : 't'}${motion.axis}`);
+}
@@ -0,0 +1,31 @@
+// Inline styles shared by the side panels, so they and their buttons and fields all look alike.
+
+// Each panel adds its own width, and a height limit with scrolling when it can grow long.
+export const panelStyle = {
+  border: '1px solid rgba(255,255,255,0.4)',
+  borderRadius: '10px',
+  background: 'rgba(10,20,40,0.85)',
+  color: '#eaf2ff',
+  padding: '10px 14px',
+  fontSize: '12px',
+};
+
+export const buttonStyle = {
+  border: '1px solid rgba(255,255,255,0.4)',
+  borderRadius: '8px',
+  background: 'rgba(255,255,255,0.08)',
+  color: '#ffffff',
+  padding: '4px 10px',
+  cursor: 'pointer',
+};
+
+// A toggle that is on, or the chosen one of a set.
+export const activeButtonStyle = { ...buttonStyle, background: 'rgba(47,109,179,0.9)' };
+
+export const fieldStyle = {
+  padding: '3px 6px',
+  border: '1px solid rgba(255,255,255,0.3)',
+  borderRadius: '4px',
+  background: 'rgba(255,255,255,0.08)',
+  color: '#ffffff',
+};
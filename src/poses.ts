@@ -0,0 +1,143 @@
+import * as THREE from 'three';
+
+export type JointTransform = {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+};
+
+export type Pose = {
+  id: string;
+  name: string;
+  // Keyed by joint name so a pose survives reloading the model.
+  joints: Record<string, JointTransform>;
+};
+
+export type Keyframe = {
+  // Seconds from the start of the sequence.
+  time: number;
+  poseId: string;
+};
+
+export type Sequence = {
+  poses: Pose[];
+  keyframes: Keyframe[];
+};
+
+export const EMPTY_SEQUENCE: Sequence = { poses: [], keyframes: [] };
+
+const tempPosition = new THREE.Vector3();
+const tempNextPosition = new THREE.Vector3();
+const tempQuat = new THREE.Quaternion();
+const tempNextQuat = new THREE.Quaternion();
+
+export function capturePose(name: string, joints: THREE.Object3D[]): Pose {
+  return {
+    id: `pose-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name,
+    joints: Object.fromEntries(
+      joints.map((joint) => [
+        joint.name,
+        {
+          position: joint.position.toArray() as [number, number, number],
+          quaternion: joint.quaternion.toArray() as [number, number, number, number],
+        },
+      ]),
+    ),
+  };
+}
+
+export function applyPose(pose: Pose, joints: THREE.Object3D[]) {
+  joints.forEach((joint) => {
+    const transform = pose.joints[joint.name];
+    if (transform) {
+      joint.position.fromArray(transform.position);
+      joint.quaternion.fromArray(transform.quaternion);
+    }
+  });
+}
+
+export function sortKeyframes(keyframes: Keyframe[]): Keyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+export function getSequenceDuration(sequence: Sequence): number {
+  return sequence.keyframes.reduce((duration, keyframe) => Math.max(duration, keyframe.time), 0);
+}
+
+/**
+ * Poses the joints at `time` by interpolating between the keyframes on either side: positions linearly and
+ * orientations by slerp. Before the first or after the last keyframe the nearest one holds.
+ */
+export function applySequenceAt(sequence: Sequence, time: number, joints: THREE.Object3D[]) {
+  const posesById = new Map(sequence.poses.map((pose) => [pose.id, pose]));
+  const keyframes = sortKeyframes(sequence.keyframes).filter((keyframe) => posesById.has(keyframe.poseId));
+  if (keyframes.length === 0) {
+    return;
+  }
+
+  const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time);
+  if (nextIndex === 0 || nextIndex === -1) {
+    applyPose(posesById.get(keyframes[nextIndex === 0 ? 0 : keyframes.length - 1].poseId)!, joints);
+    return;
+  }
+
+  const previous = keyframes[nextIndex - 1];
+  const next = keyframes[nextIndex];
+  const from = posesById.get(previous.poseId)!;
+  const to = posesById.get(next.poseId)!;
+  const alpha = (time - previous.time) / Math.max(next.time - previous.time, 1e-6);
+
+  joints.forEach((joint) => {
+    const start = from.joints[joint.name];
+    const end = to.joints[joint.name];
+    if (!start || !end) {
+      return;
+    }
+
+    joint.position.copy(tempPosition.fromArray(start.position).lerp(tempNextPosition.fromArray(end.position), alpha));
+    joint.quaternion.copy(tempQuat.fromArray(start.quaternion).slerp(tempNextQuat.fromArray(end.quaternion), alpha));
+  });
+}
+
+function isNumberTuple(value: unknown, length: number): boolean {
+  return Array.isArray(value) && value.length === length && value.every((item) => typeof item === 'number');
+}
+
+export function parseSequence(raw: unknown): Sequence {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('A pose sequence must be a JSON object');
+  }
+
+  const { poses, keyframes } = raw as Record<string, unknown>;
+  if (!Array.isArray(poses) || !Array.isArray(keyframes)) {
+    throw new Error('A pose sequence needs "poses" and "keyframes" lists');
+  }
+
+  const parsedPoses = poses.map((pose, index): Pose => {
+    const { id, name, joints } = (pose ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !joints || typeof joints !== 'object') {
+      throw new Error(`Pose ${index} needs an "id" and "joints"`);
+    }
+
+    Object.entries(joints).forEach(([jointName, transform]) => {
+      const { position, quaternion } = (transform ?? {}) as Record<string, unknown>;
+      if (!isNumberTuple(position, 3) || !isNumberTuple(quaternion, 4)) {
+        throw new Error(`Pose "${id}" has an invalid transform for ${jointName}`);
+      }
+    });
+
+    return { id, name: typeof name === 'string' ? name : id, joints: joints as Pose['joints'] };
+  });
+
+  const poseIds = new Set(parsedPoses.map((pose) => pose.id));
+  const parsedKeyframes = keyframes.map((keyframe, index): Keyframe => {
+    const { time, poseId } = (keyframe ?? {}) as Record<string, unknown>;
+    if (typeof time !== 'number' || typeof poseId !== 'string' || !poseIds.has(poseId)) {
+      throw new Error(`Keyframe ${index} needs a "time" and the "poseId" of a pose in this file`);
+    }
+
+    return { time: Math.max(0, time), poseId };
+  });
+
+  return { poses: parsedPoses, keyframes: sortKeyframes(parsedKeyframes) };
+}
@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+import { AXES, getRotationAxes, isPrismaticJoint, type Axis, type JointConstraint } from './joints.ts';
+import type { MotionKind } from './motion.ts';
+
+export type RosBridgeOptions = {
+  url: string;
+  stateTopic: string;
+  commandTopic: string;
+  // ROS 2 names the message type `sensor_msgs/msg/JointState` and its stamp fields `sec`/`nanosec`.
+  ros2: boolean;
+};
+
+// A failure carries what went wrong after the prefix, as a session's status does.
+export type RosBridgeStatus = 'connecting' | 'open' | 'closed' | `error: ${string}`;
+
+export type JointStateMessage = {
+  header?: { stamp?: Record<string, number>; frame_id?: string };
+  name: string[];
+  position: number[];
+  velocity?: number[];
+  effort?: number[];
+};
+
+// One entry of a JointState message: a single rotation or slide axis of a joint.
+export type RosJointAxis = {
+  name: string;
+  joint: THREE.Object3D;
+  kind: MotionKind;
+  axis: Axis;
+};
+
+type RosBridgeCallbacks = {
+  onStatus: (status: RosBridgeStatus) => void;
+};
+
+export type RosBridgeConnection = {
+  // Newest command received and not yet applied; older ones are superseded, not queued.
+  command: JointStateMessage | null;
+  publishJointState: (names: string[], positions: number[], velocities: number[]) => void;
+  close: () => void;
+};
+
+export const DEFAULT_ROSBRIDGE_OPTIONS: RosBridgeOptions = {
+  url: `ws://${window.location.hostname || 'localhost'}:9090`,
+  stateTopic: '/joint_states',
+  commandTopic: '/joint_command',
+  ros2: false,
+};
+
+/**
+ * The axes published for each joint, named the way a URDF would: the bare joint name when the joint has a single
+ * degree of freedom, `<joint>_r<axis>` / `<joint>_t<axis>` when it has several.
+ */
+export function getRosJointAxes(
+  joints: THREE.Object3D[],
+  getConstraint: (joint: THREE.Object3D) => JointConstraint,
+): RosJointAxis[] {
+  return joints.flatMap((joint) => {
+    const constraint = getConstraint(joint);
+    const axes: Array<{ kind: MotionKind; axis: Axis }> = [
+      ...(isPrismaticJoint(constraint) ? [] : getRotationAxes(constraint)).map((axis) => ({
+        kind: 'rotation' as const,
+        axis,
+      })),
+      ...AXES.filter((axis) => constraint.translation?.[axis]?.enabled).map((axis) => ({
+        kind: 'slide' as const,
+        axis,
+      })),
+    ];
+
+    return axes.map(({ kind, axis }) => ({
+      name: axes.length === 1 ? joint.name : `${joint.name}_${kind === 'rotation' ? 'r' : 't'}${axis}`,
+      joint,
+      kind,
+      axis,
+    }));
+  });
+}
+
+function messageType(options: RosBridgeOptions): string {
+  return options.ros2 ? 'sensor_msgs/msg/JointState' : 'sensor_msgs/JointState';
+}
+
+function stamp(ros2: boolean): Record<string, number> {
+  const now = Date.now();
+  const secs = Math.floor(now / 1000);
+  const nsecs = (now % 1000) * 1e6;
+  return ros2 ? { sec: secs, nanosec: nsecs } : { secs, nsecs };
+}
+
+function isJointState(msg: unknown): msg is JointStateMessage {
+  const candidate = msg as JointStateMessage | null;
+  return Boolean(candidate && Array.isArray(candidate.name) && Array.isArray(candidate.position));
+}
+
+/**
+ * Speaks the rosbridge v2 JSON protocol: advertises and publishes JointState on `stateTopic` and subscribes to
+ * JointState commands on `commandTopic`. Positions are radians for rotations and model units for slides (metres
+ * for URDF robots, whose joint names then match the robot's own). Throws, as `WebSocket` does, on a malformed URL.
+ */
+export function connectRosBridge(options: RosBridgeOptions, callbacks: RosBridgeCallbacks): RosBridgeConnection {
+  const socket = new WebSocket(options.url);
+  const type = messageType(options);
+
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const connection: RosBridgeConnection = {
+    command: null,
+    publishJointState: (names, positions, velocities) =>
+      send({
+        op: 'publish',
+        topic: options.stateTopic,
+        msg: {
+          header: { stamp: stamp(options.ros2), frame_id: '' },
+          name: names,
+          position: positions,
+          velocity: velocities,
+          effort: [],
+        },
+      }),
+    close: () => socket.close(),
+  };
+
+  let opened = false;
+  let failure: string | null = null;
+  socket.addEventListener('error', () => {
+    failure = opened ? 'The connection was lost.' : `Could not reach ${options.url}.`;
+  });
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    send({ op: 'advertise', topic: options.stateTopic, type });
+    send({ op: 'subscribe', topic: options.commandTopic, type });
+    callbacks.onStatus('open');
+  });
+
+  socket.addEventListener('close', () => {
+    connection.command = null;
+    callbacks.onStatus(failure ? `error: ${failure}` : 'closed');
+  });
+
+  socket.addEventListener('message', (event) => {
+    let message: { op?: string; topic?: string; msg?: unknown };
+    try {
+      message = JSON.parse(String(event.data)) as typeof message;
+    } catch {
+      return;
+    }
+
+    if (message.op === 'publish' && message.topic === options.commandTopic && isJointState(message.msg)) {
+      connection.command = message.msg;
+    }
+  });
+
+  return connection;
+}
@@ -0,0 +1,179 @@
+import type { JointTransform } from './poses.ts';
+
+export type RootTransform = {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  scale: [number, number, number];
+};
+
+// What one participant changed on one arm since its last update; the relay merges these into the shared scene.
+export type SessionState = {
+  // The arm's instance id, the same in every view of the scene.
+  armId: string;
+  modelId: string;
+  root?: RootTransform;
+  joints?: Record<string, JointTransform>;
+  // The arm was taken out of the scene.
+  removed?: boolean;
+};
+
+// An arm standing in the shared scene when this view joined it.
+export type SessionArm = {
+  armId: string;
+  modelId: string;
+};
+
+export type SessionRay = {
+  origin: [number, number, number];
+  direction: [number, number, number];
+};
+
+export type SessionPeer = {
+  id: string;
+  name: string;
+  color: string;
+};
+
+// A failure carries what went wrong after the prefix.
+export type SessionStatus = 'connecting' | 'open' | 'closed' | `error: ${string}`;
+
+type ServerMessage =
+  | {
+      type: 'welcome';
+      id: string;
+      peers: SessionPeer[];
+      locks: Record<string, string>;
+      arms: Record<string, { modelId: string; root: RootTransform | null; joints: Record<string, JointTransform> }>;
+    }
+  | { type: 'peers'; peers: SessionPeer[] }
+  | { type: 'locks'; locks: Record<string, string> }
+  | { type: 'state'; from: string; state: SessionState }
+  | { type: 'rays'; from: string; rays: SessionRay[] };
+
+type SessionCallbacks = {
+  onStatus: (status: SessionStatus) => void;
+  onPeers: (peers: SessionPeer[]) => void;
+  onLocks: (locks: Record<string, string>) => void;
+};
+
+export type SessionConnection = {
+  selfId: string | null;
+  // Remote updates waiting for the frame loop to apply them, oldest first.
+  inbox: SessionState[];
+  // The arms already in the session when this view joined, which replace its own; null once they have.
+  scene: SessionArm[] | null;
+  // Latest controller rays of every other participant, in world space.
+  rays: Map<string, SessionRay[]>;
+  // Joint key (see `jointKey`) -> id of the participant holding it.
+  locks: Record<string, string>;
+  sendState: (state: SessionState) => void;
+  sendRays: (rays: SessionRay[]) => void;
+  claim: (joints: string[]) => void;
+  release: (joints: string[]) => void;
+  close: () => void;
+};
+
+export const DEFAULT_RELAY_URL = `ws://${window.location.hostname || 'localhost'}:8787`;
+
+// Joints are claimed and locked per arm in the scene, so the same joint on two copies of a model is two locks.
+export function jointKey(armId: string, jointName: string): string {
+  return `${armId}/${jointName}`;
+}
+
+export function isLockedByOther(connection: SessionConnection | null, armId: string, jointName: string): boolean {
+  const owner = connection?.locks[jointKey(armId, jointName)];
+  return Boolean(owner && owner !== connection?.selfId);
+}
+
+// Throws, as `WebSocket` does, when the URL isn't a ws:// or wss:// address.
+export function connectSession(url: string, name: string, callbacks: SessionCallbacks): SessionConnection {
+  const socket = new WebSocket(url);
+
+  const send = (message: object) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const connection: SessionConnection = {
+    selfId: null,
+    inbox: [],
+    scene: null,
+    rays: new Map(),
+    locks: {},
+    sendState: (state) => send({ type: 'state', state }),
+    sendRays: (rays) => send({ type: 'rays', rays }),
+    claim: (joints) => send({ type: 'claim', joints }),
+    release: (joints) => send({ type: 'release', joints }),
+    close: () => socket.close(),
+  };
+
+  const setLocks = (locks: Record<string, string>) => {
+    connection.locks = locks;
+    callbacks.onLocks(locks);
+  };
+
+  // The browser says nothing about why a socket failed, and always closes it straight after.
+  let opened = false;
+  let failure: string | null = null;
+
+  socket.addEventListener('open', () => {
+    opened = true;
+    send({ type: 'hello', name });
+    callbacks.onStatus('open');
+  });
+
+  socket.addEventListener('error', () => {
+    failure = opened ? 'The connection was lost.' : `Could not reach ${url}.`;
+  });
+
+  socket.addEventListener('close', () => {
+    connection.rays.clear();
+    setLocks({});
+    callbacks.onPeers([]);
+    callbacks.onStatus(failure ? `error: ${failure}` : 'closed');
+  });
+
+  socket.addEventListener('message', (event) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(String(event.data)) as ServerMessage;
+    } catch {
+      return;
+    }
+
+    switch (message.type) {
+      case 'welcome':
+        connection.selfId = message.id;
+        callbacks.onPeers(message.peers);
+        setLocks(message.locks);
+        // Joining a session that already has arms shows those; joining an empty one shares this view's own.
+        Object.entries(message.arms).forEach(([armId, arm]) => {
+          connection.scene = [...(connection.scene ?? []), { armId, modelId: arm.modelId }];
+          connection.inbox.push({ armId, modelId: arm.modelId, root: arm.root ?? undefined, joints: arm.joints });
+        });
+        break;
+      case 'peers':
+        callbacks.onPeers(message.peers);
+        [...connection.rays.keys()].forEach((id) => {
+          if (!message.peers.some((peer) => peer.id === id)) {
+            connection.rays.delete(id);
+          }
+        });
+        break;
+      case 'locks':
+        setLocks(message.locks);
+        break;
+      case 'state':
+        connection.inbox.push(message.state);
+        break;
+      case 'rays':
+        connection.rays.set(message.from, message.rays);
+        break;
+      default:
+        break;
+    }
+  });
+
+  return connection;
+}
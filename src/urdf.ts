@@ -0,0 +1,325 @@
+import * as THREE from 'three';
+import { ColladaLoader } from 'three/examples/jsm/loaders/ColladaLoader.js';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { STLLoader } from 'three/examples/jsm/loaders/STLLoader.js';
+
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+const DEFAULT_COLOR = new THREE.Color('#b8c2cc');
+
+type Vec3 = [number, number, number];
+
+function readVector(text: string | null | undefined, fallback: Vec3): Vec3 {
+  const values = (text ?? '').trim().split(/\s+/).map(Number);
+  return values.length === 3 && values.every(Number.isFinite) ? (values as Vec3) : fallback;
+}
+
+function readNumber(element: Element | null, name: string): number | undefined {
+  const value = element?.getAttribute(name);
+  if (value === null || value === undefined || value.trim() === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function childElements(parent: Element, tag: string): Element[] {
+  return [...parent.children].filter((child) => child.tagName === tag);
+}
+
+function childElement(parent: Element, tag: string): Element | null {
+  return childElements(parent, tag)[0] ?? null;
+}
+
+// URDF `rpy` is roll about x, then pitch about y, then yaw about z, all about fixed axes: R = Rz * Ry * Rx.
+function applyOrigin(object: THREE.Object3D, origin: Element | null) {
+  object.position.fromArray(readVector(origin?.getAttribute('xyz'), [0, 0, 0]));
+  object.quaternion.setFromEuler(new THREE.Euler(...readVector(origin?.getAttribute('rpy'), [0, 0, 0]), 'ZYX'));
+}
+
+function readColor(material: Element | null, named: Map<string, THREE.Color>): THREE.Color | null {
+  const rgba = material && childElement(material, 'color')?.getAttribute('rgba');
+  if (rgba) {
+    const [r, g, b] = rgba.trim().split(/\s+/).map(Number);
+    return new THREE.Color(r, g, b);
+  }
+
+  const name = material?.getAttribute('name');
+  return (name && named.get(name)) || null;
+}
+
+/**
+ * Loads a URDF robot as a plain object tree the arm viewer can pose. Every link is a group holding its visuals,
+ * and every revolute, continuous or prismatic joint becomes an object flagged `userData.urdfJoint` that turns about,
+ * or slides along, its own z axis: the URDF axis is folded into a frame above the joint and undone again below it,
+ * so the child link ends up exactly where the URDF puts it. Joint limits are written to `userData.joint` in the
+ * same shape as a GLB bone's extras, so they reach the constraint model by the same route. URDF is z-up and in
+ * metres; the returned group turns it y-up. Meshes a URDF opened from disk names but that weren't opened with it
+ * are left out and listed in the group's `userData.missingMeshes`.
+ */
+export class URDFLoader extends THREE.Loader<THREE.Group> {
+  // `package://name/...` -> base URL of that package. Packages not listed resolve next to the URDF file.
+  packages: Record<string, string> = {};
+  // Files picked from disk, keyed by their relative path: mesh references are matched on their trailing path.
+  files: Record<string, string> = {};
+
+  load(
+    url: string,
+    onLoad: (robot: THREE.Group) => void,
+    _onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void,
+  ) {
+    this.manager.itemStart(url);
+
+    fetch(this.manager.resolveURL(url))
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Could not load ${url} (${response.status} ${response.statusText})`);
+        }
+        return response.text();
+      })
+      .then((text) => this.parse(text, url))
+      .then((robot) => {
+        onLoad(robot);
+        this.manager.itemEnd(url);
+      })
+      .catch((error: unknown) => {
+        onError?.(error);
+        this.manager.itemError(url);
+        this.manager.itemEnd(url);
+      });
+  }
+
+  // Null for a URDF opened from disk when the mesh wasn't opened with it; there's nowhere else to look.
+  resolveMeshUrl(filename: string, urdfUrl: string): string | null {
+    const localPath = filename.replace(/^(package|file):\/\//, '').replace(/^\/+/, '');
+    const fileKeys = Object.keys(this.files);
+
+    if (fileKeys.length > 0 || urdfUrl.startsWith('blob:')) {
+      // Try the full reference first, then drop leading folders until something picked from disk matches.
+      const parts = localPath.split('/');
+      for (let start = 0; start < parts.length; start += 1) {
+        const suffix = parts.slice(start).join('/').toLowerCase();
+        const match = fileKeys.find((key) => key.toLowerCase() === suffix || key.toLowerCase().endsWith(`/${suffix}`));
+        if (match) {
+          return this.files[match];
+        }
+      }
+      return null;
+    }
+
+    if (filename.startsWith('package://')) {
+      const [packageName, ...rest] = localPath.split('/');
+      const base = this.packages[packageName];
+      if (base) {
+        return `${base.replace(/\/+$/, '')}/${rest.join('/')}`;
+      }
+      return new URL(rest.join('/'), new URL(urdfUrl, window.location.href)).href;
+    }
+
+    return new URL(filename, new URL(urdfUrl, window.location.href)).href;
+  }
+
+  async loadMesh(url: string, filename: string, material: THREE.Material): Promise<THREE.Object3D> {
+    const extension = filename.split('.').pop()?.toLowerCase();
+
+    switch (extension) {
+      case 'stl':
+        return new THREE.Mesh(await new STLLoader(this.manager).loadAsync(url), material);
+      case 'obj':
+        return new OBJLoader(this.manager).loadAsync(url);
+      case 'dae': {
+        const collada = await new ColladaLoader(this.manager).loadAsync(url);
+        // The URDF origin already places the mesh; ColladaLoader's own z-up correction would turn it a second time.
+        collada.scene.rotation.set(0, 0, 0);
+        return collada.scene;
+      }
+      case 'glb':
+      case 'gltf':
+        return (await new GLTFLoader(this.manager).loadAsync(url)).scene;
+      default:
+        throw new Error(`Unsupported mesh format: ${filename}`);
+    }
+  }
+
+  async buildVisual(
+    visual: Element,
+    urdfUrl: string,
+    colors: Map<string, THREE.Color>,
+    missing: string[],
+  ): Promise<THREE.Object3D | null> {
+    const geometry = childElement(visual, 'geometry');
+    const shape = geometry?.children[0];
+    if (!shape) {
+      return null;
+    }
+
+    const color = readColor(childElement(visual, 'material'), colors);
+    const material = new THREE.MeshStandardMaterial({ color: color ?? DEFAULT_COLOR, metalness: 0.2, roughness: 0.6 });
+    let object: THREE.Object3D;
+
+    switch (shape.tagName) {
+      case 'box':
+        object = new THREE.Mesh(new THREE.BoxGeometry(...readVector(shape.getAttribute('size'), [0.1, 0.1, 0.1])), material);
+        break;
+      case 'cylinder': {
+        const radius = readNumber(shape, 'radius') ?? 0.05;
+        object = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, readNumber(shape, 'length') ?? 0.1, 32), material);
+        // URDF cylinders run along z, three.js cylinders along y.
+        object.rotation.x = Math.PI / 2;
+        break;
+      }
+      case 'sphere':
+        object = new THREE.Mesh(new THREE.SphereGeometry(readNumber(shape, 'radius') ?? 0.05, 32, 16), material);
+        break;
+      case 'mesh': {
+        const filename = shape.getAttribute('filename') ?? '';
+        const url = this.resolveMeshUrl(filename, urdfUrl);
+        if (!url) {
+          // The rest of the robot is still worth seeing, and its joints still work without this part.
+          missing.push(filename);
+          return null;
+        }
+        object = await this.loadMesh(url, filename, material);
+        object.scale.fromArray(readVector(shape.getAttribute('scale'), [1, 1, 1]));
+        // An explicit URDF colour wins over whatever the mesh file carries.
+        if (color) {
+          object.traverse((child) => {
+            if (child instanceof THREE.Mesh && child.material !== material) {
+              child.material = material;
+            }
+          });
+        }
+        break;
+      }
+      default:
+        return null;
+    }
+
+    const frame = new THREE.Group();
+    applyOrigin(frame, childElement(visual, 'origin'));
+    frame.add(object);
+    return frame;
+  }
+
+  async parse(text: string, urdfUrl: string): Promise<THREE.Group> {
+    const xml = new DOMParser().parseFromString(text, 'application/xml');
+    const robot = xml.querySelector('robot');
+    if (!robot || xml.querySelector('parsererror')) {
+      throw new Error(`${urdfUrl} is not a URDF file`);
+    }
+
+    const colors = new Map<string, THREE.Color>();
+    childElements(robot, 'material').forEach((material) => {
+      const color = readColor(material, colors);
+      const name = material.getAttribute('name');
+      if (name && color) {
+        colors.set(name, color);
+      }
+    });
+
+    const links = new Map<string, THREE.Group>();
+    const missing: string[] = [];
+    await Promise.all(
+      childElements(robot, 'link').map(async (element) => {
+        const link = new THREE.Group();
+        link.name = element.getAttribute('name') ?? '';
+        link.userData.urdfLink = true;
+        links.set(link.name, link);
+
+        const visuals = await Promise.all(
+          childElements(element, 'visual').map((visual) => this.buildVisual(visual, urdfUrl, colors, missing)),
+        );
+        visuals.forEach((visual) => {
+          if (visual) {
+            // Collision reports name a link after its mesh's parent.
+            visual.name = link.name;
+            link.add(visual);
+          }
+        });
+      }),
+    );
+
+    const children = new Set<string>();
+    childElements(robot, 'joint').forEach((element) => {
+      const name = element.getAttribute('name') ?? '';
+      const type = element.getAttribute('type') ?? 'fixed';
+      const parent = links.get(childElement(element, 'parent')?.getAttribute('link') ?? '');
+      const child = links.get(childElement(element, 'child')?.getAttribute('link') ?? '');
+      if (!parent || !child) {
+        throw new Error(`URDF joint "${name}" connects links that are not defined`);
+      }
+      children.add(child.name);
+
+      const frame = new THREE.Group();
+      frame.name = `${name}_frame`;
+      applyOrigin(frame, childElement(element, 'origin'));
+      parent.add(frame);
+
+      // Floating and planar joints have no single axis to drive; they stay where the URDF puts them.
+      if (type !== 'revolute' && type !== 'continuous' && type !== 'prismatic') {
+        frame.add(child);
+        return;
+      }
+
+      const axis = new THREE.Vector3(...readVector(childElement(element, 'axis')?.getAttribute('xyz'), [1, 0, 0]));
+      const align = new THREE.Quaternion().setFromUnitVectors(Z_AXIS, axis.normalize());
+      frame.quaternion.multiply(align);
+
+      const joint = new THREE.Object3D();
+      joint.name = name;
+      joint.userData.urdfJoint = true;
+      frame.add(joint);
+
+      child.quaternion.copy(align).invert();
+      joint.add(child);
+
+      // Extras give rotations in degrees; converted here at full precision so the limits survive the round trip.
+      const limit = childElement(element, 'limit');
+      const toExtras = (value?: number) =>
+        value === undefined || type === 'prismatic' ? value : THREE.MathUtils.radToDeg(value);
+      const velocity = readNumber(limit, 'velocity');
+      const axisExtras = {
+        enabled: true,
+        min: type === 'continuous' ? undefined : toExtras(readNumber(limit, 'lower')),
+        max: type === 'continuous' ? undefined : toExtras(readNumber(limit, 'upper')),
+        maxVelocity: velocity && velocity > 0 ? toExtras(velocity) : undefined,
+      };
+      joint.userData.joint = type === 'prismatic' ? { translation: { z: axisExtras } } : { z: axisExtras };
+    });
+
+    const roots = [...links.values()].filter((link) => !children.has(link.name));
+    if (roots.length !== 1) {
+      throw new Error(`A URDF robot needs exactly one root link, found ${roots.length}`);
+    }
+
+    // The deepest link is taken as the tool: the arm's end effector sits at its origin.
+    let tool = roots[0];
+    let toolDepth = -1;
+    roots[0].traverse((object) => {
+      if (!object.userData.urdfLink) {
+        return;
+      }
+      let depth = 0;
+      for (let current = object.parent; current; current = current.parent) {
+        depth += 1;
+      }
+      if (depth > toolDepth) {
+        toolDepth = depth;
+        tool = object as THREE.Group;
+      }
+    });
+    const tip = new THREE.Object3D();
+    tip.name = `${tool.name}_tip`;
+    tip.userData.isEndEffector = true;
+    tool.add(tip);
+
+    const scene = new THREE.Group();
+    scene.name = robot.getAttribute('name') ?? 'robot';
+    scene.rotation.x = -Math.PI / 2;
+    scene.add(roots[0]);
+    scene.userData.missingMeshes = [...new Set(missing)];
+    return scene;
+  }
+}
@@ -0,0 +1,134 @@
+import * as THREE from 'three';
+import {
+  AXES,
+  getRotationAxes,
+  getSlideAxis,
+  getSlideOffset,
+  isPrismaticJoint,
+  type Axis,
+  type JointConstraint,
+} from './joints.ts';
+
+// One swept degree of freedom: a rotation axis or a slide axis of a joint, between two limits.
+export type WorkspaceDof = {
+  joint: THREE.Object3D;
+  kind: 'rotation' | 'slide';
+  axis: Axis;
+  min: number;
+  max: number;
+  // A full unlimited turn, where the last step would land back on the first.
+  wraps: boolean;
+};
+
+const tempEffectorPos = new THREE.Vector3();
+const tempRootInverse = new THREE.Matrix4();
+const tempSlideAxis = new THREE.Vector3();
+
+/**
+ * The axes each joint sweeps: rotation axes over their limits (a full turn where unlimited) and slide axes over
+ * their travel. Slides without both limits have no range to sample and hold where they are.
+ */
+export function getWorkspaceDofs(
+  joints: THREE.Object3D[],
+  getConstraint: (joint: THREE.Object3D) => JointConstraint,
+): WorkspaceDof[] {
+  return joints.flatMap((joint) => {
+    const constraint = getConstraint(joint);
+    const dofs: WorkspaceDof[] = [];
+
+    if (!isPrismaticJoint(constraint)) {
+      getRotationAxes(constraint).forEach((axis) => {
+        const { min, max } = constraint[axis] ?? {};
+        dofs.push({
+          joint,
+          kind: 'rotation',
+          axis,
+          min: min ?? -Math.PI,
+          max: max ?? Math.PI,
+          wraps: min === undefined && max === undefined,
+        });
+      });
+    }
+
+    AXES.forEach((axis) => {
+      const slide = constraint.translation?.[axis];
+      if (slide?.enabled && slide.min !== undefined && slide.max !== undefined) {
+        dofs.push({ joint, kind: 'slide', axis, min: slide.min, max: slide.max, wraps: false });
+      }
+    });
+
+    return dofs;
+  });
+}
+
+function setDof(dof: WorkspaceDof, value: number) {
+  if (dof.kind === 'rotation') {
+    dof.joint.rotation[dof.axis] = value;
+    return;
+  }
+
+  getSlideAxis(dof.joint, dof.axis, tempSlideAxis);
+  dof.joint.position.addScaledVector(tempSlideAxis, value - getSlideOffset(dof.joint, dof.axis));
+}
+
+/**
+ * Sweeps the given axes through at most `maxSamples` poses and returns where the end effector lands in `root`'s
+ * local frame, so the cloud can follow the arm around. The pose is restored afterwards.
+ */
+export function sampleWorkspace(
+  root: THREE.Object3D,
+  effector: THREE.Object3D,
+  dofs: WorkspaceDof[],
+  maxSamples = 4096,
+): Float32Array {
+  if (dofs.length === 0) {
+    return new Float32Array(0);
+  }
+
+  const joints = [...new Set(dofs.map((dof) => dof.joint))];
+  const saved = joints.map((joint) => ({ position: joint.position.clone(), quaternion: joint.quaternion.clone() }));
+
+  // A grid gives clean curves and surfaces for a few axes; past that it gets too coarse and random poses do better.
+  const steps = Math.floor(Math.pow(maxSamples, 1 / dofs.length));
+  const grid = steps >= 4;
+  const values = dofs.map((dof) =>
+    Array.from({ length: steps }, (_, index) => {
+      const t = dof.wraps ? index / steps : index / (steps - 1);
+      return dof.min + (dof.max - dof.min) * t;
+    }),
+  );
+
+  root.updateWorldMatrix(true, false);
+  tempRootInverse.copy(root.matrixWorld).invert();
+
+  const total = grid ? Math.pow(steps, dofs.length) : maxSamples;
+  const positions = new Float32Array(total * 3);
+  const counters = dofs.map(() => 0);
+
+  for (let sample = 0; sample < total; sample += 1) {
+    dofs.forEach((dof, index) =>
+      setDof(dof, grid ? values[index][counters[index]] : dof.min + (dof.max - dof.min) * Math.random()),
+    );
+
+    effector.updateWorldMatrix(true, false);
+    tempEffectorPos.setFromMatrixPosition(effector.matrixWorld).applyMatrix4(tempRootInverse);
+    tempEffectorPos.toArray(positions, sample * 3);
+
+    // Odometer-style step to the next combination.
+    for (let index = dofs.length - 1; index >= 0; index -= 1) {
+      counters[index] += 1;
+      if (counters[index] < steps) {
+        break;
+      }
+      counters[index] = 0;
+    }
+  }
+
+  joints.forEach((joint, index) => {
+    joint.position.copy(saved[index].position);
+    joint.quaternion.copy(saved[index].quaternion);
+  });
+  root.updateMatrixWorld(true);
+
+  return positions;
+}
@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+export type XRButtonHandler = (hit: THREE.Intersection) => void;
+
+// In-VR panels register their pressable meshes here; controller rays test them before the arm.
+const buttons = new Map<THREE.Object3D, XRButtonHandler>();
+
+const tempArmPosition = new THREE.Vector3();
+const tempArmQuat = new THREE.Quaternion();
+const tempOffset = new THREE.Vector3();
+
+export function registerXRButton(object: THREE.Object3D, onPress: XRButtonHandler): () => void {
+  buttons.set(object, onPress);
+
+  return () => {
+    buttons.delete(object);
+  };
+}
+
+export function hitXRButton(raycaster: THREE.Raycaster): { hit: THREE.Intersection; onPress: XRButtonHandler } | null {
+  const visible = [...buttons.keys()].filter((object) => {
+    for (let current: THREE.Object3D | null = object; current; current = current.parent) {
+      if (!current.visible) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const hit = raycaster.intersectObjects(visible, false)[0];
+  if (!hit) {
+    return null;
+  }
+
+  return { hit, onPress: buttons.get(hit.object)! };
+}
+
+export type XRMode = 'vr' | 'ar';
+
+// An XRSession doesn't say whether it is immersive-vr or immersive-ar, so the entry buttons record it on click.
+let requestedMode: XRMode = 'vr';
+
+export function setRequestedXRMode(mode: XRMode) {
+  requestedMode = mode;
+}
+
+export function getXRMode(renderer: THREE.WebGLRenderer): XRMode | null {
+  return renderer.xr.isPresenting ? requestedMode : null;
+}
+
+export function useXRMode(): XRMode | null {
+  const { gl } = useThree();
+  const [mode, setMode] = useState(() => getXRMode(gl));
+
+  useEffect(() => {
+    const onSessionStart = () => setMode(requestedMode);
+    const onSessionEnd = () => setMode(null);
+
+    gl.xr.addEventListener('sessionstart', onSessionStart);
+    gl.xr.addEventListener('sessionend', onSessionEnd);
+
+    return () => {
+      gl.xr.removeEventListener('sessionstart', onSessionStart);
+      gl.xr.removeEventListener('sessionend', onSessionEnd);
+    };
+  }, [gl]);
+
+  return mode;
+}
+
+export function useXRPresenting(): boolean {
+  return useXRMode() !== null;
+}
+
+// Floats a panel at `offset` (meters, in the arm's yaw frame) so it stays readable wherever the arm is placed.
+export function placeBesideArm(object: THREE.Object3D, armRoot: THREE.Object3D, offset: THREE.Vector3Tuple) {
+  armRoot.getWorldPosition(tempArmPosition);
+  armRoot.getWorldQuaternion(tempArmQuat);
+  tempOffset.fromArray(offset).applyQuaternion(tempArmQuat);
+
+  object.position.copy(tempArmPosition).add(tempOffset);
+  object.quaternion.copy(tempArmQuat);
+}